@@ -0,0 +1,26 @@
+import { Schema } from "effect"
+
+export const CountryCode = Schema.String.pipe(
+  Schema.pattern(/^[A-Z]{2}$/),
+  Schema.brand("CountryCode"),
+  Schema.annotations({ description: "ISO 3166-1 alpha-2 Country Code" })
+)
+export type CountryCode = typeof CountryCode.Type
+
+// Destination of a shipment, captured when the order starts and carried by the saga up to Shipping
+export const Address = Schema.Struct({
+  name: Schema.NonEmptyTrimmedString.annotations({ description: "Recipient Name" }),
+  line1: Schema.NonEmptyTrimmedString.annotations({ description: "Address Line 1" }),
+  line2: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Address Line 2"
+  }),
+  city: Schema.NonEmptyTrimmedString.annotations({ description: "City" }),
+  region: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Region, State or Province"
+  }),
+  postalCode: Schema.NonEmptyTrimmedString.annotations({ description: "Postal Code" }),
+  country: CountryCode
+}).pipe(
+  Schema.annotations({ description: "Address", identifier: "Address" })
+)
+export type Address = typeof Address.Type
@@ -0,0 +1,718 @@
+import { HttpApi, HttpApiClient, HttpApiEndpoint, HttpApiGroup, HttpClient, OpenApi } from "@effect/platform"
+import { Effect, Schema } from "effect"
+import { Address } from "./Address.js"
+import { CustomerId } from "./CustomerId.js"
+import { Conflict, NotFound, PersistenceError, Unavailable } from "./DomainError.js"
+import { IdempotencyKey } from "./IdempotencyKey.js"
+import { InventoryId } from "./InventoryId.js"
+import * as Money from "./Money.js"
+import { OrderId } from "./OrderId.js"
+import { OrderLine, OrderLines } from "./OrderLine.js"
+import { ProductId } from "./ProductId.js"
+import { SagaLogId } from "./SagaLog.js"
+
+const OrderSchema = Schema.Struct({
+  id: OrderId,
+  customerId: CustomerId,
+  // Lines with their unit price frozen from the catalog when the order started
+  lines: OrderLines,
+  sagaLogId: SagaLogId,
+  // Null for orders placed before shipping addresses were captured
+  shippingAddress: Schema.optionalWith(Schema.NullOr(Address), { default: () => null }).annotations({
+    description: "Shipping Address"
+  }),
+  status: Schema.optionalWith(
+    Schema.Literal("PENDING", "CONFIRMED", "DELIVERED", "FAILED", "COMPENSATED"),
+    { default: () => "PENDING" }
+  ).annotations({ description: "Status" }),
+  totalPrice: Money.Money.annotations({ description: "Total Price" })
+  // createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" }),
+  // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
+  // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
+}).pipe(
+  Schema.annotations({ description: "Order", identifier: "Order" })
+)
+type OrderSchema = typeof OrderSchema.Type
+
+export class Order extends Schema.Class<Order>("Order")(OrderSchema) {
+  static decodeUnknown = Schema.decodeUnknown(Order)
+}
+
+export const OrderStartRequest = Schema.Struct({
+  customerId: CustomerId,
+  lines: Schema.NonEmptyArray(OrderLine.pipe(Schema.pick("productId", "quantity"))).annotations({
+    description: "Order Lines"
+  }),
+  shippingAddress: Address.annotations({ description: "Shipping Address" }),
+  // Expected total, rejected unless it matches the total priced from the catalog
+  totalPrice: Money.Money.annotations({ description: "Total Price" })
+}).pipe(
+  Schema.annotations({ description: "Order Start Request", identifier: "OrderStartRequest" })
+)
+export type OrderStartRequest = typeof OrderStartRequest.Type
+
+export const OrderCompensateRequest = Schema.Struct({
+  orderId: OrderId,
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Order Compensate Request", identifier: "OrderCompensateRequest" })
+)
+export type OrderCompensateRequest = typeof OrderCompensateRequest.Type
+
+export const OrderDeliverRequest = Schema.Struct({
+  orderId: OrderId,
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Order Deliver Request", identifier: "OrderDeliverRequest" })
+)
+export type OrderDeliverRequest = typeof OrderDeliverRequest.Type
+
+export const OrderResponse = Schema.Struct({
+  data: Order,
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Order Response", identifier: "OrderResponse" })
+)
+export type OrderResponse = typeof OrderResponse.Type
+
+export const OrderStartResponse = Schema.Struct({
+  message: Schema.String,
+  orderId: OrderId,
+  sagaLogId: SagaLogId,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Order Start Response", identifier: "OrderStartResponse" })
+)
+export type OrderStartResponse = typeof OrderStartResponse.Type
+
+// Outcome of a saga step, a failed step answers `success: false` without data
+export const OrderStepResponse = Schema.Struct({
+  data: Schema.optional(Order),
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Order Step Response", identifier: "OrderStepResponse" })
+)
+export type OrderStepResponse = typeof OrderStepResponse.Type
+
+export class OrderHttpApiGroup extends HttpApiGroup.make("order")
+  .addError(PersistenceError)
+  .add(
+    HttpApiEndpoint.post("start", "/start")
+      .addSuccess(OrderStartResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPayload(OrderStartRequest)
+      .annotate(OpenApi.Description, "Order Start")
+      .annotate(OpenApi.Summary, "Order Start")
+  )
+  .add(
+    HttpApiEndpoint.post("compensate", "/compensate")
+      .addSuccess(OrderStepResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .setPayload(OrderCompensateRequest)
+      .annotate(OpenApi.Description, "Order Compensate")
+      .annotate(OpenApi.Summary, "Order Compensate")
+  )
+  .add(
+    HttpApiEndpoint.post("deliver", "/deliver")
+      .addSuccess(OrderResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPayload(OrderDeliverRequest)
+      .annotate(OpenApi.Description, "Order Deliver")
+      .annotate(OpenApi.Summary, "Order Deliver")
+  )
+  .add(
+    HttpApiEndpoint.get("get", "/:orderId")
+      .addSuccess(OrderResponse)
+      .addError(NotFound)
+      .setPath(Schema.Struct({ orderId: OrderId }))
+      .annotate(OpenApi.Description, "Order Get")
+      .annotate(OpenApi.Summary, "Order Get")
+  )
+  .annotate(OpenApi.Description, "Manage Order")
+  .annotate(OpenApi.Summary, "Manage Order")
+  .annotate(OpenApi.Title, "Order")
+  .prefix("/order")
+{}
+
+export const PaymentId = Schema.UUID.pipe(
+  Schema.brand("PaymentId"),
+  Schema.annotations({ description: "Payment Identification" })
+)
+export type PaymentId = typeof PaymentId.Type
+
+const PaymentSchema = Schema.Struct({
+  id: PaymentId,
+  amount: Money.Money.annotations({ description: "Amount" }),
+  // Payment gateway references, null until the gateway has authorized or captured
+  authorizationReference: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Authorization Reference"
+  }),
+  captureReference: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Capture Reference"
+  }),
+  compensationKey: Schema.optionalWith(Schema.NullOr(IdempotencyKey), { default: () => null }),
+  customerId: CustomerId,
+  idempotencyKey: IdempotencyKey,
+  orderId: OrderId,
+  sagaLogId: SagaLogId,
+  status: Schema.optionalWith(
+    Schema.Literal("PENDING", "AUTHORIZED", "CAPTURED", "FAILED", "VOIDED", "PARTIALLY_REFUNDED", "REFUNDED"),
+    { default: () => "PENDING" }
+  ).annotations({ description: "Status" })
+  // createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" }),
+  // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
+  // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
+}).pipe(
+  Schema.annotations({ description: "Payment", identifier: "Payment" })
+)
+type PaymentSchema = typeof PaymentSchema.Type
+
+export class Payment extends Schema.Class<Payment>("Payment")(PaymentSchema) {
+  static decodeUnknown = Schema.decodeUnknown(Payment)
+}
+
+export const PaymentProcessRequest = Schema.Struct({
+  amount: Money.Money.annotations({ description: "Amount" }),
+  // Card token the gateway charges, the customer's default card when null
+  card: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Card"
+  }),
+  customerId: CustomerId,
+  orderId: OrderId,
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Payment Process Request", identifier: "PaymentProcessRequest" })
+)
+export type PaymentProcessRequest = typeof PaymentProcessRequest.Type
+
+export const PaymentRefundId = Schema.UUID.pipe(
+  Schema.brand("PaymentRefundId"),
+  Schema.annotations({ description: "Payment Refund Identification" })
+)
+export type PaymentRefundId = typeof PaymentRefundId.Type
+
+// Refund of part or all of a captured payment, one per refund idempotency key
+const PaymentRefundSchema = Schema.Struct({
+  id: PaymentRefundId,
+  amount: Money.Money.annotations({ description: "Amount" }),
+  idempotencyKey: IdempotencyKey,
+  paymentId: PaymentId,
+  reason: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Reason"
+  }),
+  // Payment gateway reference of the refund
+  reference: Schema.String.annotations({ description: "Reference" }),
+  createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
+}).pipe(
+  Schema.annotations({ description: "PaymentRefund", identifier: "PaymentRefund" })
+)
+type PaymentRefundSchema = typeof PaymentRefundSchema.Type
+
+export class PaymentRefund extends Schema.Class<PaymentRefund>("PaymentRefund")(PaymentRefundSchema) {
+  static decodeUnknown = Schema.decodeUnknown(PaymentRefund)
+}
+
+export const PaymentRefundRequest = Schema.Struct({
+  // Refunds whatever has not been refunded yet when null, voiding a payment that was not captured
+  amount: Schema.optionalWith(Schema.NullOr(Money.Money), { default: () => null }).annotations({
+    description: "Amount"
+  }),
+  orderId: OrderId,
+  reason: PaymentRefundSchema.fields.reason,
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Payment Refund Request", identifier: "PaymentRefundRequest" })
+)
+export type PaymentRefundRequest = typeof PaymentRefundRequest.Type
+
+export const PaymentCaptureRequest = Schema.Struct({
+  orderId: OrderId,
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Payment Capture Request", identifier: "PaymentCaptureRequest" })
+)
+export type PaymentCaptureRequest = typeof PaymentCaptureRequest.Type
+
+export const PaymentResponse = Schema.Struct({
+  data: Payment,
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Payment Response", identifier: "PaymentResponse" })
+)
+export type PaymentResponse = typeof PaymentResponse.Type
+
+// Outcome of a saga step, a failed step answers `success: false` with the error and no data
+export const PaymentStepResponse = Schema.Struct({
+  data: Schema.optional(Payment),
+  error: Schema.optional(Schema.String),
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Payment Step Response", identifier: "PaymentStepResponse" })
+)
+export type PaymentStepResponse = typeof PaymentStepResponse.Type
+
+export const PaymentRefundsResponse = Schema.Struct({
+  data: Schema.Array(PaymentRefund),
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Payment Refunds Response", identifier: "PaymentRefundsResponse" })
+)
+export type PaymentRefundsResponse = typeof PaymentRefundsResponse.Type
+
+export class PaymentHttpApiGroup extends HttpApiGroup.make("payment")
+  .addError(PersistenceError)
+  .add(
+    HttpApiEndpoint.post("process", "/process")
+      .addSuccess(PaymentStepResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .addError(Unavailable)
+      .setPayload(PaymentProcessRequest)
+      .annotate(OpenApi.Description, "Payment Start")
+      .annotate(OpenApi.Summary, "Payment Start")
+  )
+  .add(
+    HttpApiEndpoint.post("refund", "/refund")
+      .addSuccess(PaymentStepResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .addError(Unavailable)
+      .setPayload(PaymentRefundRequest)
+      .annotate(OpenApi.Description, "Payment Refund")
+      .annotate(OpenApi.Summary, "Payment Refund")
+  )
+  .add(
+    HttpApiEndpoint.post("capture", "/capture")
+      .addSuccess(PaymentResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .addError(Unavailable)
+      .setPayload(PaymentCaptureRequest)
+      .annotate(OpenApi.Description, "Payment Capture")
+      .annotate(OpenApi.Summary, "Payment Capture")
+  )
+  .add(
+    HttpApiEndpoint.get("get", "/:paymentId")
+      .addSuccess(PaymentResponse)
+      .addError(NotFound)
+      .setPath(Schema.Struct({ paymentId: PaymentId }))
+      .annotate(OpenApi.Description, "Payment Get")
+      .annotate(OpenApi.Summary, "Payment Get")
+  )
+  .add(
+    HttpApiEndpoint.get("listRefunds", "/:paymentId/refunds")
+      .addSuccess(PaymentRefundsResponse)
+      .setPath(Schema.Struct({ paymentId: PaymentId }))
+      .annotate(OpenApi.Description, "Payment List Refunds")
+      .annotate(OpenApi.Summary, "Payment List Refunds")
+  )
+  .annotate(OpenApi.Description, "Manage Payment")
+  .annotate(OpenApi.Summary, "Manage Payment")
+  .annotate(OpenApi.Title, "Payment")
+  .prefix("/payment")
+{}
+
+const InventorySchemaStruct = Schema.Struct({
+  id: InventoryId,
+  productId: Schema.optionalWith(Schema.NullOr(ProductId), { default: () => null }),
+  // Stock on hand, including reserved stock, excluding sold stock
+  quantity: Schema.Int.pipe(Schema.nonNegative()).annotations({ description: "Quantity" }),
+  // Derived from the reservations ledger, not stored
+  reservedQuantity: Schema.optionalWith(Schema.Number.annotations({ description: "Reserved Quantity" }), {
+    default: () => 0
+  })
+  // createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
+  // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
+  // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
+}).pipe(
+  Schema.annotations({ description: "InventoryData", identifier: "InventoryData" })
+)
+type InventorySchemaStruct = typeof InventorySchemaStruct.Type
+
+export class Inventory extends Schema.Class<Inventory>("Inventory")(InventorySchemaStruct) {
+  static decodeUnknown = Schema.decodeUnknown(InventorySchemaStruct)
+}
+
+export const InventoryReservationId = Schema.UUID.pipe(
+  Schema.brand("InventoryReservationId"),
+  Schema.annotations({ description: "Inventory Reservation Identification" })
+)
+export type InventoryReservationId = typeof InventoryReservationId.Type
+
+const InventoryReservationSchema = Schema.Struct({
+  id: InventoryReservationId,
+  idempotencyKey: IdempotencyKey,
+  orderId: OrderId,
+  productId: ProductId,
+  quantity: Schema.Int.pipe(Schema.positive()).annotations({ description: "Quantity" }),
+  // Key of the compensation that released the reservation
+  releaseKey: Schema.optionalWith(Schema.NullOr(IdempotencyKey), { default: () => null }),
+  sagaLogId: SagaLogId,
+  status: Schema.optionalWith(
+    Schema.Literal("RESERVED", "COMMITTED", "RELEASED"),
+    { default: () => "RESERVED" }
+  ).annotations({ description: "Status" }),
+  createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
+}).pipe(
+  Schema.annotations({ description: "Inventory Reservation", identifier: "InventoryReservation" })
+)
+type InventoryReservationSchema = typeof InventoryReservationSchema.Type
+
+export class InventoryReservation
+  extends Schema.Class<InventoryReservation>("InventoryReservation")(InventoryReservationSchema)
+{
+  static decodeUnknown = Schema.decodeUnknown(InventoryReservation)
+}
+
+export const InventoryUpdateRequest = Schema.Struct({
+  orderId: OrderId,
+  lines: Schema.NonEmptyArray(OrderLine.pipe(Schema.pick("productId", "quantity"))).annotations({
+    description: "Order Lines"
+  }),
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Inventory Update Request", identifier: "InventoryUpdateRequest" })
+)
+export type InventoryUpdateRequest = typeof InventoryUpdateRequest.Type
+
+export const InventoryCompensateRequest = Schema.Struct({
+  orderId: OrderId,
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Inventory Compensate Request", identifier: "InventoryCompensateRequest" })
+)
+export type InventoryCompensateRequest = typeof InventoryCompensateRequest.Type
+
+export const InventoryCommitRequest = Schema.Struct({
+  orderId: OrderId,
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Inventory Commit Request", identifier: "InventoryCommitRequest" })
+)
+export type InventoryCommitRequest = typeof InventoryCommitRequest.Type
+
+export const InventoryInitializeRequest = Schema.Struct({
+  productId: ProductId,
+  quantity: Schema.Int.pipe(Schema.positive()).annotations({ description: "Quantity" })
+}).pipe(
+  Schema.annotations({ description: "Inventory Compensate Request", identifier: "InventoryInitializeRequest" })
+)
+export type InventoryInitializeRequest = typeof InventoryInitializeRequest.Type
+
+export const InventoryResponse = Schema.Struct({
+  data: Inventory,
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Inventory Response", identifier: "InventoryResponse" })
+)
+export type InventoryResponse = typeof InventoryResponse.Type
+
+export const InventoryReservationsResponse = Schema.Struct({
+  data: Schema.Array(InventoryReservation),
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Inventory Reservations Response", identifier: "InventoryReservationsResponse" })
+)
+export type InventoryReservationsResponse = typeof InventoryReservationsResponse.Type
+
+// Outcome of a saga step, a failed step answers `success: false` with the error and no data
+export const InventoryStepResponse = Schema.Struct({
+  data: Schema.optional(Schema.Array(InventoryReservation)),
+  error: Schema.optional(Schema.String),
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Inventory Step Response", identifier: "InventoryStepResponse" })
+)
+export type InventoryStepResponse = typeof InventoryStepResponse.Type
+
+export class InventoryHttpApiGroup extends HttpApiGroup.make("inventory")
+  .addError(PersistenceError)
+  .add(
+    HttpApiEndpoint.post("update", "/update")
+      .addSuccess(InventoryStepResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPayload(InventoryUpdateRequest)
+      .annotate(OpenApi.Description, "Inventory Update")
+      .annotate(OpenApi.Summary, "Inventory Update")
+  )
+  .add(
+    HttpApiEndpoint.post("compensate", "/compensate")
+      .addSuccess(InventoryStepResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPayload(InventoryCompensateRequest)
+      .annotate(OpenApi.Description, "Inventory Compensate")
+      .annotate(OpenApi.Summary, "Inventory Compensate")
+  )
+  .add(
+    HttpApiEndpoint.post("commit", "/commit")
+      .addSuccess(InventoryReservationsResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPayload(InventoryCommitRequest)
+      .annotate(OpenApi.Description, "Inventory Commit")
+      .annotate(OpenApi.Summary, "Inventory Commit")
+  )
+  .add(
+    HttpApiEndpoint.post("initialize", "/initialize")
+      .addSuccess(InventoryResponse)
+      // .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .setPayload(InventoryInitializeRequest)
+      .annotate(OpenApi.Description, "Inventory Compensate")
+      .annotate(OpenApi.Summary, "Inventory Compensate")
+  )
+  .add(
+    HttpApiEndpoint.get("get", "/:productId")
+      .addSuccess(InventoryResponse)
+      .addError(NotFound)
+      .setPath(Schema.Struct({ productId: ProductId }))
+      .annotate(OpenApi.Description, "Inventory Get")
+      .annotate(OpenApi.Summary, "Inventory Get")
+  )
+  .annotate(OpenApi.Description, "Manage Inventory")
+  .annotate(OpenApi.Summary, "Manage Inventory")
+  .annotate(OpenApi.Title, "Inventory")
+  .prefix("/inventory")
+{}
+
+export const ShippingId = Schema.UUID.pipe(
+  Schema.brand("ShippingId"),
+  Schema.annotations({ description: "Shipping Identification" })
+)
+export type ShippingId = typeof ShippingId.Type
+
+const ShippingSchema = Schema.Struct({
+  id: ShippingId,
+  // Carrier, service and cost of the rate the label was bought with
+  carrier: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Carrier"
+  }),
+  compensationKey: Schema.optionalWith(Schema.NullOr(IdempotencyKey), { default: () => null }),
+  cost: Schema.optionalWith(Schema.NullOr(Money.Money), { default: () => null }).annotations({
+    description: "Cost"
+  }),
+  customerId: CustomerId,
+  idempotencyKey: IdempotencyKey,
+  orderId: OrderId,
+  sagaLogId: SagaLogId,
+  service: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Service"
+  }),
+  // Null for shipments created before shipping addresses were captured
+  shippingAddress: Schema.optionalWith(Schema.NullOr(Address), { default: () => null }).annotations({
+    description: "Shipping Address"
+  }),
+  status: Schema.optionalWith(
+    Schema.Literal("PENDING", "LABEL_CREATED", "SHIPPED", "IN_TRANSIT", "DELIVERED", "CANCELLED", "RETURNED"),
+    { default: () => "PENDING" }
+  ).annotations({ description: "Status" }),
+  trackingNumber: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Tracking Number"
+  })
+  // createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" }),
+  // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
+  // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
+}).pipe(
+  Schema.annotations({ description: "Shipping", identifier: "Shipping" })
+)
+type ShippingSchema = typeof ShippingSchema.Type
+
+export class Shipping extends Schema.Class<Shipping>("Shipping")(ShippingSchema) {
+  static decodeUnknown = Schema.decodeUnknown(Shipping)
+}
+
+export const ShippingDeliverRequest = Schema.Struct({
+  customerId: CustomerId,
+  orderId: OrderId,
+  sagaLogId: SagaLogId,
+  // Null when the saga started before shipping addresses were captured, the step then fails
+  shippingAddress: ShippingSchema.fields.shippingAddress
+}).pipe(
+  Schema.annotations({ description: "Shipping Deliver Request", identifier: "ShippingDeliverRequest" })
+)
+export type ShippingDeliverRequest = typeof ShippingDeliverRequest.Type
+
+export const ShippingCancelRequest = Schema.Struct({
+  orderId: OrderId,
+  sagaLogId: SagaLogId
+}).pipe(
+  Schema.annotations({ description: "Shipping Cancel Request", identifier: "ShippingCancelRequest" })
+)
+export type ShippingCancelRequest = typeof ShippingCancelRequest.Type
+
+// Tracking event reported by the carrier, returns are not tracked yet
+export const ShippingTrackRequest = Schema.Struct({
+  description: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Description"
+  }),
+  status: Schema.Literal("SHIPPED", "IN_TRANSIT", "DELIVERED").annotations({ description: "Status" })
+}).pipe(
+  Schema.annotations({ description: "Shipping Track Request", identifier: "ShippingTrackRequest" })
+)
+export type ShippingTrackRequest = typeof ShippingTrackRequest.Type
+
+export const ShippingResponse = Schema.Struct({
+  data: Shipping,
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Shipping Response", identifier: "ShippingResponse" })
+)
+export type ShippingResponse = typeof ShippingResponse.Type
+
+// Outcome of a saga step, a failed step answers `success: false` with the error and no data
+export const ShippingStepResponse = Schema.Struct({
+  data: Schema.optional(Shipping),
+  error: Schema.optional(Schema.String),
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Shipping Step Response", identifier: "ShippingStepResponse" })
+)
+export type ShippingStepResponse = typeof ShippingStepResponse.Type
+
+export class ShippingHttpApiGroup extends HttpApiGroup.make("shipping")
+  .addError(PersistenceError)
+  .add(
+    HttpApiEndpoint.post("deliver", "/deliver")
+      .addSuccess(ShippingStepResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Unavailable)
+      .setPayload(ShippingDeliverRequest)
+      .annotate(OpenApi.Description, "Shipping Start")
+      .annotate(OpenApi.Summary, "Shipping Start")
+  )
+  .add(
+    HttpApiEndpoint.post("cancel", "/cancel")
+      .addSuccess(ShippingStepResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .setPayload(ShippingCancelRequest)
+      .annotate(OpenApi.Description, "Shipping Refund")
+      .annotate(OpenApi.Summary, "Shipping Refund")
+  )
+  .add(
+    HttpApiEndpoint.post("track", "/:shippingId/tracking")
+      .addSuccess(ShippingResponse)
+      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPath(Schema.Struct({ shippingId: ShippingId }))
+      .setPayload(ShippingTrackRequest)
+      .annotate(OpenApi.Description, "Shipping Track")
+      .annotate(OpenApi.Summary, "Shipping Track")
+  )
+  .add(
+    HttpApiEndpoint.get("get", "/:shippingId")
+      .addSuccess(ShippingResponse)
+      .addError(NotFound)
+      .setPath(Schema.Struct({ shippingId: ShippingId }))
+      .annotate(OpenApi.Description, "Shipping Get")
+      .annotate(OpenApi.Summary, "Shipping Get")
+  )
+  .annotate(OpenApi.Description, "Manage Shipping")
+  .annotate(OpenApi.Summary, "Manage Shipping")
+  .annotate(OpenApi.Title, "Shipping")
+  .prefix("/shipping")
+{}
+
+// Contract of the saga services, each service serves its own group
+export const Api = HttpApi.make("api")
+  .add(OrderHttpApiGroup)
+  .add(PaymentHttpApiGroup)
+  .add(InventoryHttpApiGroup)
+  .add(ShippingHttpApiGroup)
+  .prefix("/api/v1")
+
+// Endpoint an Outbox event is dispatched to, named `<group>.<endpoint>` like the handler's inbox entry
+export const TargetEndpoint = Schema.Literal(
+  "order.start",
+  "order.compensate",
+  "order.deliver",
+  "payment.process",
+  "payment.refund",
+  "payment.capture",
+  "inventory.update",
+  "inventory.compensate",
+  "inventory.commit",
+  "shipping.deliver",
+  "shipping.cancel"
+).annotations({ description: "Target Endpoint" })
+export type TargetEndpoint = typeof TargetEndpoint.Type
+
+// Typed clients of the saga services, each service is reached at its own base URL
+export const makeClient = (baseUrls: Record<"inventory" | "order" | "payment" | "shipping", string>) =>
+  Effect.gen(function*() {
+    const httpClient = yield* HttpClient.HttpClient
+    return {
+      inventory: yield* HttpApiClient.group(Api, { baseUrl: baseUrls.inventory, group: "inventory", httpClient }),
+      order: yield* HttpApiClient.group(Api, { baseUrl: baseUrls.order, group: "order", httpClient }),
+      payment: yield* HttpApiClient.group(Api, { baseUrl: baseUrls.payment, group: "payment", httpClient }),
+      shipping: yield* HttpApiClient.group(Api, { baseUrl: baseUrls.shipping, group: "shipping", httpClient })
+    }
+  })
+export type ApiClient = Effect.Effect.Success<ReturnType<typeof makeClient>>
+
+// Body every endpoint an event is dispatched to answers with
+export interface StepResponse {
+  readonly error?: string | undefined
+  readonly message: string
+  readonly success: boolean
+}
+
+export interface DispatchRequest {
+  readonly idempotencyKey: IdempotencyKey
+  readonly payload: unknown
+}
+
+// Decodes the stored payload with the endpoint's request schema before calling it
+const send = <A, I, E>(
+  payloadSchema: Schema.Schema<A, I>,
+  call: (request: {
+    readonly headers: { readonly "idempotency-key": IdempotencyKey }
+    readonly payload: A
+  }) => Effect.Effect<StepResponse, E>
+) =>
+({ idempotencyKey, payload }: DispatchRequest) =>
+  Schema.decodeUnknown(payloadSchema)(payload).pipe(
+    Effect.flatMap((payload) => call({ headers: { "idempotency-key": idempotencyKey }, payload }))
+  )
+
+// Calls the endpoint an event targets
+export const dispatch = (client: ApiClient, targetEndpoint: TargetEndpoint, request: DispatchRequest) => {
+  const endpoints = {
+    "order.start": send(OrderStartRequest, (request) => client.order.start(request)),
+    "order.compensate": send(OrderCompensateRequest, (request) => client.order.compensate(request)),
+    "order.deliver": send(OrderDeliverRequest, (request) => client.order.deliver(request)),
+    "payment.process": send(PaymentProcessRequest, (request) => client.payment.process(request)),
+    "payment.refund": send(PaymentRefundRequest, (request) => client.payment.refund(request)),
+    "payment.capture": send(PaymentCaptureRequest, (request) => client.payment.capture(request)),
+    "inventory.update": send(InventoryUpdateRequest, (request) => client.inventory.update(request)),
+    "inventory.compensate": send(InventoryCompensateRequest, (request) => client.inventory.compensate(request)),
+    "inventory.commit": send(InventoryCommitRequest, (request) => client.inventory.commit(request)),
+    "shipping.deliver": send(ShippingDeliverRequest, (request) => client.shipping.deliver(request)),
+    "shipping.cancel": send(ShippingCancelRequest, (request) => client.shipping.cancel(request))
+  } satisfies Record<TargetEndpoint, unknown>
+  return endpoints[targetEndpoint](request)
+}
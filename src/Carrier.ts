@@ -0,0 +1,112 @@
+import { Context, Data, Effect, Layer } from "effect"
+import type { Address, CountryCode } from "./Address.js"
+import type { IdempotencyKey } from "./IdempotencyKey.js"
+import * as Money from "./Money.js"
+import type { OrderId } from "./OrderId.js"
+
+// Carrier does not deliver to the address and will refuse it again
+export class CarrierAddressRejectedError extends Data.TaggedError("CarrierAddressRejectedError")<{
+  readonly reason: string
+}> {}
+
+// Carrier could not be reached or failed transiently, the operation may be retried with the same key
+export class CarrierUnavailableError extends Data.TaggedError("CarrierUnavailableError")<{
+  readonly message: string
+}> {}
+
+export type CarrierError = CarrierAddressRejectedError | CarrierUnavailableError
+
+// Price of shipping to an address with a carrier's service
+export interface CarrierRate {
+  readonly carrier: string
+  readonly cost: Money.Money
+  readonly estimatedDays: number
+  readonly service: string
+}
+
+export interface CarrierLabel {
+  readonly trackingNumber: string
+}
+
+// Label creation is idempotent per key, so a retried delivery does not buy a second label
+export class Carrier extends Context.Tag("@context/Carrier")<
+  Carrier,
+  {
+    // Rates of every service delivering to the address
+    readonly quote: (request: {
+      destination: Address
+    }) => Effect.Effect<ReadonlyArray<CarrierRate>, CarrierError>
+    // Buys the label of a quoted rate
+    readonly createLabel: (request: {
+      destination: Address
+      idempotencyKey: IdempotencyKey
+      orderId: OrderId
+      rate: CarrierRate
+    }) => Effect.Effect<CarrierLabel, CarrierError>
+  }
+>() {}
+
+// Cheapest rate, the fastest one among equally cheap rates
+export const selectRate = (rates: ReadonlyArray<CarrierRate>) =>
+  rates.reduce<CarrierRate | undefined>(
+    (selected, rate) =>
+      !selected || Money.greaterThan(selected.cost, rate.cost) ||
+        (Money.equals(selected.cost, rate.cost) && rate.estimatedDays < selected.estimatedDays) ?
+        rate :
+        selected,
+    undefined
+  )
+
+// Buys the label of the selected rate, a destination the carrier quotes no rate to is refused like an unserved one
+export const buyLabel = (
+  carrier: Context.Tag.Service<Carrier>,
+  request: {
+    destination: Address
+    idempotencyKey: IdempotencyKey
+    orderId: OrderId
+  }
+) =>
+  Effect.gen(function*() {
+    const rate = selectRate(yield* carrier.quote({ destination: request.destination }))
+    if (!rate) {
+      return yield* new CarrierAddressRejectedError({ reason: `No rate to ${request.destination.country}` })
+    }
+    const { trackingNumber } = yield* carrier.createLabel({ ...request, rate })
+    return { rate, trackingNumber }
+  })
+
+export interface CarrierStubOptions {
+  readonly currency: Money.Currency
+  readonly origin: CountryCode
+  readonly unservedCountries?: ReadonlyArray<CountryCode>
+}
+
+// Quotes a ground and an express service, international shipments cost twice as much and take twice as long.
+// Tracking numbers derive from the idempotency key, so the same request always gets the same label
+export const StubCarrierLive = (options: CarrierStubOptions) =>
+  Layer.succeed(
+    Carrier,
+    {
+      quote: ({ destination }) => {
+        if (options.unservedCountries?.includes(destination.country)) {
+          return Effect.fail(new CarrierAddressRejectedError({ reason: `No service to ${destination.country}` }))
+        }
+        const factor = destination.country === options.origin ? 1 : 2
+        return Effect.succeed([
+          {
+            carrier: "STUB",
+            cost: Money.multiply(Money.make(599, options.currency), factor),
+            estimatedDays: 5 * factor,
+            service: "GROUND"
+          },
+          {
+            carrier: "STUB",
+            cost: Money.multiply(Money.make(1499, options.currency), factor),
+            estimatedDays: factor,
+            service: "EXPRESS"
+          }
+        ])
+      },
+      createLabel: ({ idempotencyKey }) => Effect.succeed({ trackingNumber: `STUB${idempotencyKey}` })
+    }
+  )
@@ -0,0 +1,257 @@
+import { HttpApi, HttpApiBuilder, HttpApiEndpoint, HttpApiGroup, OpenApi } from "@effect/platform"
+import { SqlClient } from "@effect/sql"
+import { Array, Console, Context, Effect, Either, Layer, Option, Schema } from "effect"
+import { v7 as uuidv7 } from "uuid"
+import { Conflict, fromParseError, fromSqlError, NotFound, PersistenceError } from "./DomainError.js"
+import * as Money from "./Money.js"
+import { ProductId } from "./ProductId.js"
+
+export const ProductPriceId = Schema.UUID.pipe(
+  Schema.brand("ProductPriceId"),
+  Schema.annotations({ description: "Product Price Identification" })
+)
+export type ProductPriceId = typeof ProductPriceId.Type
+
+// Price list entry, a product's price is the entry in effect at the time of the order
+const ProductPriceSchema = Schema.Struct({
+  id: ProductPriceId,
+  effectiveFrom: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({
+    description: "Effective From"
+  }),
+  // Open ended when null
+  effectiveTo: Schema.optionalWith(Schema.NullOr(Schema.Date), { default: () => null }).annotations({
+    description: "Effective To"
+  }),
+  price: Money.Money.annotations({ description: "Price" }),
+  productId: ProductId,
+  createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
+}).pipe(
+  Schema.annotations({ description: "ProductPrice", identifier: "ProductPrice" })
+)
+type ProductPriceSchema = typeof ProductPriceSchema.Type
+
+export class ProductPrice extends Schema.Class<ProductPrice>("ProductPrice")(ProductPriceSchema) {
+  static decodeUnknown = Schema.decodeUnknown(ProductPrice)
+}
+
+// Price in effect at `at` among a product's price entries, the latest effective entry wins when several overlap
+export const effectivePrice = (productPrices: ReadonlyArray<ProductPrice>, at: Date): Option.Option<ProductPrice> =>
+  productPrices
+    .filter(({ effectiveFrom, effectiveTo }) => effectiveFrom <= at && (effectiveTo === null || effectiveTo > at))
+    .reduce<Option.Option<ProductPrice>>(
+      (latest, productPrice) =>
+        Option.isSome(latest) && latest.value.effectiveFrom >= productPrice.effectiveFrom ?
+          latest :
+          Option.some(productPrice),
+      Option.none()
+    )
+
+// Lines priced at `at` from each line's price entries, the prices are frozen on the order. Lines without a price,
+// prices in several currencies and a total the customer did not expect are refused
+export const priceLines = <Line extends { readonly productId: ProductId; readonly quantity: number }>(
+  lines: Array.NonEmptyReadonlyArray<Line>,
+  productPrices: ReadonlyArray<ReadonlyArray<ProductPrice>>,
+  { at, expectedTotalPrice }: { readonly at: Date; readonly expectedTotalPrice: Money.Money }
+): Either.Either<
+  {
+    readonly lines: Array.NonEmptyArray<Line & { readonly unitPrice: Money.Money }>
+    readonly totalPrice: Money.Money
+  },
+  Conflict | NotFound
+> => {
+  const prices = lines.map((_, index) => Option.map(effectivePrice(productPrices[index] ?? [], at), (_) => _.price))
+  const unpricedProductIds = lines.filter((_, index) => Option.isNone(prices[index])).map(({ productId }) => productId)
+  if (unpricedProductIds.length > 0) {
+    return Either.left(
+      new NotFound({ entity: "ProductPrice", message: `No price for products: ${unpricedProductIds.join(", ")}` })
+    )
+  }
+  const unitPrices = Option.all(prices).pipe(Option.getOrElse(() => []))
+  const currencies = new Set(unitPrices.map((price) => price.currency))
+  if (currencies.size > 1) {
+    return Either.left(
+      new Conflict({ message: `Products priced in several currencies: ${[...currencies].join(", ")}` })
+    )
+  }
+  const pricedLines = Array.map(lines, (line, index) => ({ ...line, unitPrice: unitPrices[index] }))
+  const currency = pricedLines[0].unitPrice.currency
+  if (expectedTotalPrice.currency !== currency) {
+    return Either.left(
+      new Conflict({ message: `Total price in ${expectedTotalPrice.currency}, the products are priced in ${currency}` })
+    )
+  }
+  const totalPrice = Money.sum(currency, pricedLines.map((line) => Money.multiply(line.unitPrice, line.quantity)))
+  if (!Money.equals(totalPrice, expectedTotalPrice)) {
+    return Either.left(
+      new Conflict({
+        message: `Total price ${Money.format(expectedTotalPrice)} does not match catalog total ${
+          Money.format(totalPrice)
+        }`
+      })
+    )
+  }
+  return Either.right({ lines: pricedLines, totalPrice })
+}
+
+export class ProductPriceRepository extends Context.Tag("@context/ProductPriceRepository")<
+  ProductPriceRepository,
+  {
+    // Price history of the product, latest first
+    readonly findAll: (options: {
+      productId: ProductId
+    }) => Effect.Effect<Array<ProductPrice>, PersistenceError>
+    readonly save: (data: ProductPrice) => Effect.Effect<ProductPrice, PersistenceError>
+  }
+>() {}
+
+export const ProductPriceRepositoryLive = Layer.effect(
+  ProductPriceRepository,
+  Effect.gen(function*() {
+    const sql = yield* SqlClient.SqlClient
+
+    yield* sql`
+CREATE TABLE IF NOT EXISTS tbl_product_price (
+    id UUID PRIMARY KEY,
+    effective_from TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    effective_to TIMESTAMP WITH TIME ZONE,
+    price JSONB NOT NULL CHECK ((price->>'amount')::bigint >= 0),
+    product_id UUID NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CHECK (effective_to IS NULL OR effective_to > effective_from)
+);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Prices set before Money were DECIMAL major units next to a currency column
+    const minorUnits = sql.literal(Money.sqlMinorUnits("currency"))
+    yield* sql`
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tbl_product_price' AND column_name = 'price' AND data_type = 'numeric'
+  ) THEN
+    ALTER TABLE tbl_product_price DROP CONSTRAINT IF EXISTS tbl_product_price_price_check;
+    ALTER TABLE tbl_product_price ALTER COLUMN price TYPE JSONB
+      USING jsonb_build_object('amount', ROUND(price * ${minorUnits})::bigint, 'currency', currency);
+    ALTER TABLE tbl_product_price DROP COLUMN currency;
+    ALTER TABLE tbl_product_price ADD CHECK ((price->>'amount')::bigint >= 0);
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE INDEX IF NOT EXISTS idx_product_price_product_id_effective_from ON tbl_product_price(product_id, effective_from);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+
+    return {
+      findAll: ({ productId }) =>
+        sql`SELECT * FROM tbl_product_price WHERE product_id = ${productId} ORDER BY effective_from DESC`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.all(rows.map((row) => ProductPrice.decodeUnknown(row)))),
+          Effect.catchTag("ParseError", fromParseError)
+        ),
+      save: (data) =>
+        sql`
+INSERT INTO tbl_product_price ${sql.insert({ ...data })}
+ON CONFLICT (id)
+DO UPDATE SET
+    effective_from = EXCLUDED.effective_from,
+    effective_to = EXCLUDED.effective_to,
+    price = EXCLUDED.price,
+    product_id = EXCLUDED.product_id
+RETURNING *;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.succeed(rows[0])),
+          Effect.flatMap((row) => ProductPrice.decodeUnknown(row)),
+          Effect.catchTag("ParseError", fromParseError)
+        )
+    }
+  })
+)
+
+const CatalogSetPriceRequest = Schema.Struct({
+  effectiveFrom: ProductPriceSchema.fields.effectiveFrom,
+  effectiveTo: ProductPriceSchema.fields.effectiveTo,
+  price: ProductPriceSchema.fields.price
+}).pipe(
+  Schema.annotations({ description: "Catalog Set Price Request", identifier: "CatalogSetPriceRequest" })
+)
+type CatalogSetPriceRequest = typeof CatalogSetPriceRequest.Type
+
+export class CatalogHttpApiGroup extends HttpApiGroup.make("catalog")
+  .addError(PersistenceError)
+  .add(
+    HttpApiEndpoint.post("setPrice", "/:productId/price")
+      .addSuccess(Schema.Struct({
+        data: ProductPrice,
+        message: Schema.String,
+        success: Schema.Boolean
+      }))
+      .setPath(Schema.Struct({ productId: ProductId }))
+      .setPayload(CatalogSetPriceRequest)
+      .annotate(OpenApi.Description, "Catalog Set Price")
+      .annotate(OpenApi.Summary, "Catalog Set Price")
+  )
+  .add(
+    HttpApiEndpoint.get("listPrices", "/:productId/price")
+      .addSuccess(Schema.Struct({
+        data: Schema.Array(ProductPrice),
+        message: Schema.String,
+        success: Schema.Boolean
+      }))
+      .setPath(Schema.Struct({ productId: ProductId }))
+      .annotate(OpenApi.Description, "Catalog List Prices")
+      .annotate(OpenApi.Summary, "Catalog List Prices")
+  )
+  .annotate(OpenApi.Description, "Manage Product Catalog")
+  .annotate(OpenApi.Summary, "Manage Product Catalog")
+  .annotate(OpenApi.Title, "Catalog")
+  .prefix("/catalog")
+{}
+
+const Api = HttpApi.make("api")
+  .add(CatalogHttpApiGroup)
+  .prefix("/api/v1")
+
+export const CatalogHttpApiLive = HttpApiBuilder.group(
+  Api,
+  "catalog",
+  (handlers) =>
+    Effect.gen(function*() {
+      const productPriceRepository = yield* ProductPriceRepository
+
+      return handlers.handle(
+        "setPrice",
+        ({ path: { productId }, payload: { effectiveFrom, effectiveTo, price } }) =>
+          Effect.gen(function*() {
+            yield* Console.log(
+              `[Catalog] Catalog set price ${{ productId, effectiveFrom, effectiveTo, price }}`
+            )
+            const productPrice = yield* productPriceRepository.save(
+              new ProductPrice({
+                id: ProductPriceId.make(uuidv7()),
+                effectiveFrom,
+                effectiveTo,
+                price,
+                productId
+              })
+            )
+            yield* Console.log(`[Catalog] Price set for product: ${productId}`)
+            return {
+              data: productPrice,
+              message: "Price set successfully",
+              success: true
+            }
+          })
+      ).handle("listPrices", ({ path: { productId } }) =>
+        Effect.gen(function*() {
+          yield* Console.log(`[Catalog] Catalog list prices ${{ productId }}`)
+          const productPrices = yield* productPriceRepository.findAll({ productId })
+          return {
+            data: productPrices,
+            message: "",
+            success: true
+          }
+        }))
+    })
+)
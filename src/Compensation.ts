@@ -0,0 +1,279 @@
+import { SqlClient } from "@effect/sql"
+import { PgClient } from "@effect/sql-pg"
+import type { Fiber } from "effect"
+import {
+  Array,
+  Config,
+  Console,
+  Context,
+  Data,
+  Effect,
+  Either,
+  Layer,
+  Option,
+  Redacted,
+  Schedule,
+  String
+} from "effect"
+import { fromSqlError } from "./DomainError.js"
+import { OrderSaga } from "./OrderSaga.js"
+import { Outbox, OutboxRepository, OutboxRepositoryLive } from "./Outbox.js"
+import * as SagaDefinition from "./SagaDefinition.js"
+import { SagaLog, SagaLogRepository, SagaLogRepositoryLive } from "./SagaLog.js"
+
+class ConfigService extends Context.Tag("@context/CompensationConfigService")<
+  ConfigService,
+  {
+    readonly batchSize: number
+    readonly pollIntervalMs: number
+  }
+>() {}
+
+const ConfigServiceLive = Layer.effect(
+  ConfigService,
+  Effect.gen(function*() {
+    const batchSize = yield* Config.integer("COMPENSATION_BATCH_SIZE").pipe(
+      Config.withDefault(10)
+    )
+    const pollIntervalMs = yield* Config.number("COMPENSATION_POLL_INTERVAL_MS").pipe(
+      Config.withDefault(1000)
+    )
+
+    return {
+      batchSize,
+      pollIntervalMs
+    }
+  })
+)
+
+// Next move of a compensating saga; only steps that took effect need to be undone, latest first,
+// each once the compensation of the step after it has completed. A step left IN_PROGRESS took effect
+// without finishing, such as a shipment whose label is bought but has not shipped yet
+export type CompensationPlan = Data.TaggedEnum<{
+  Compensate: { readonly step: SagaLog["steps"][number] }
+  Compensated: Record<never, never>
+  Failed: Record<never, never>
+  Waiting: Record<never, never>
+}>
+export const CompensationPlan = Data.taggedEnum<CompensationPlan>()
+
+export const planCompensation = (steps: SagaLog["steps"]): CompensationPlan => {
+  const completedSteps = Array.reverse(
+    steps.filter((step) =>
+      step.status === "IN_PROGRESS" || step.status === "COMPLETED" || step.status === "COMPENSATED"
+    )
+  )
+  if (completedSteps.some((step) => step.compensationStatus === "FAILED")) {
+    return CompensationPlan.Failed()
+  }
+  if (completedSteps.some((step) => step.compensationStatus === "IN_PROGRESS")) {
+    return CompensationPlan.Waiting()
+  }
+  return Option.match(Array.findFirst(completedSteps, (step) => step.compensationStatus === "PENDING"), {
+    onNone: () => CompensationPlan.Compensated(),
+    onSome: (step) => CompensationPlan.Compensate({ step })
+  })
+}
+
+// Steps whose compensating event the Outbox gave up delivering, dead-lettered or rejected, never hear back:
+// their compensation has failed
+export const failUndelivered = (
+  steps: SagaLog["steps"],
+  undelivered: ReadonlyArray<Outbox>
+): SagaLog["steps"] =>
+  steps.map((step) =>
+    Option.match(
+      Array.findFirst(undelivered, (event) =>
+        step.compensationStatus === "IN_PROGRESS" &&
+        Option.exists(SagaDefinition.findCompensationStep(OrderSaga, event), ({ name }) => name === step.name)),
+      {
+        onNone: () => step,
+        onSome: (event) => ({
+          ...step,
+          compensationStatus: "FAILED" as const,
+          error: event.lastError ?? `Compensation ${event.status}`,
+          timestamp: new Date()
+        })
+      }
+    )
+  )
+
+const compensateSaga = ({ id: sagaLogId }: SagaLog) =>
+  Effect.gen(function*() {
+    const sql = yield* SqlClient.SqlClient
+
+    yield* Effect.gen(function*() {
+      const outboxRepository = yield* OutboxRepository
+      const sagaLogRepository = yield* SagaLogRepository
+
+      // The services update the saga's steps concurrently, the row stays locked until the next move is recorded
+      const lockedSagaLog = yield* sagaLogRepository.findOne({ lock: true, sagaLogId })
+      if (Option.isNone(lockedSagaLog)) {
+        return
+      }
+      let sagaLog = lockedSagaLog.value
+      if (sagaLog.status === "STARTED" || sagaLog.status === "IN_PROGRESS") {
+        const failedStep = yield* Option.match(Array.findFirst(sagaLog.steps, (step) => step.status === "FAILED"), {
+          onNone: () =>
+            // A step that answered `success: false` to its Outbox event failed without recording it
+            outboxRepository.findFailed({ sagaLogId: sagaLog.id }).pipe(
+              Effect.map(Array.findFirst((event) =>
+                Option.map(SagaDefinition.findStep(OrderSaga, event), (step) => ({
+                  error: event.lastError,
+                  name: step.name
+                }))
+              ))
+            ),
+          onSome: (step) => Effect.succeedSome(step)
+        })
+        if (Option.isNone(failedStep)) {
+          return
+        }
+        const { error, name } = failedStep.value
+        yield* Console.log(`[Compensation] Step ${name} failed (${error}), compensating saga: ${sagaLog.id}`)
+        sagaLog = new SagaLog({
+          ...sagaLog,
+          status: "COMPENSATING",
+          steps: sagaLog.steps.map((step) =>
+            step.name === name && step.status !== "FAILED"
+              ? { ...step, status: "FAILED", error, timestamp: new Date() }
+              : step
+          )
+        })
+        yield* sagaLogRepository.save(sagaLog)
+      }
+      if (sagaLog.status !== "COMPENSATING") {
+        return
+      }
+      const undelivered = yield* outboxRepository.findUndelivered({ sagaLogId })
+      if (undelivered.length > 0) {
+        sagaLog = new SagaLog({ ...sagaLog, steps: failUndelivered(sagaLog.steps, undelivered) })
+      }
+      const plan = planCompensation(sagaLog.steps)
+      switch (plan._tag) {
+        case "Failed": {
+          yield* Console.error(`[Compensation] Saga FAILED, compensation could not be completed: ${sagaLog.id}`)
+          yield* sagaLogRepository.save(new SagaLog({ ...sagaLog, status: "FAILED" }))
+          return
+        }
+        case "Waiting": {
+          return
+        }
+        case "Compensated": {
+          yield* Console.log(`[Compensation] Saga COMPENSATED: ${sagaLog.id}`)
+          yield* sagaLogRepository.save(new SagaLog({ ...sagaLog, status: "COMPENSATED" }))
+          return
+        }
+      }
+      const nextStep = plan.step
+      const outboxEntry = yield* Option.match(SagaDefinition.compensate(OrderSaga, nextStep.name, sagaLog), {
+        onNone: () => Effect.fail(`Saga ${OrderSaga.name} has no step ${nextStep.name}`),
+        onSome: (dispatch) =>
+          Outbox.fromEvent(sagaLog.orderId ?? sagaLog.id, dispatch).pipe(Effect.mapError((error) => error.message))
+      }).pipe(Effect.either)
+      // Dispatching would fail the same way on every poll, the saga is left to an operator
+      if (Either.isLeft(outboxEntry)) {
+        yield* Console.error(
+          `[Compensation] Saga FAILED, compensating step ${nextStep.name} cannot be dispatched (${outboxEntry.left}): ${sagaLog.id}`
+        )
+        yield* sagaLogRepository.save(
+          new SagaLog({
+            ...sagaLog,
+            status: "FAILED",
+            steps: sagaLog.steps.map((step) =>
+              step.name === nextStep.name
+                ? { ...step, compensationStatus: "FAILED", error: outboxEntry.left, timestamp: new Date() }
+                : step
+            )
+          })
+        )
+        return
+      }
+      // Write compensating event to Outbox and update saga log in a single transaction
+      sagaLog = new SagaLog({
+        ...sagaLog,
+        steps: sagaLog.steps.map((step) =>
+          step.name === nextStep.name
+            ? { ...step, compensationStatus: "IN_PROGRESS", timestamp: new Date() }
+            : step
+        )
+      })
+      yield* outboxRepository.save(outboxEntry.right)
+      yield* sagaLogRepository.save(sagaLog)
+      yield* Console.log(`[Compensation] Compensating step ${nextStep.name} via Outbox: ${outboxEntry.right.id}`)
+    }).pipe(sql.withTransaction, Effect.catchTag("SqlError", fromSqlError))
+  })
+
+const compensatePendingSagas = Effect.gen(function*() {
+  const config = yield* ConfigService
+  const sagaLogRepository = yield* SagaLogRepository
+  const sagaLogs = yield* sagaLogRepository.findCompensable({
+    batchSize: config.batchSize
+  })
+  if (sagaLogs.length === 0) {
+    return
+  }
+  yield* Console.info(`Found ${sagaLogs.length} sagas to compensate`)
+  yield* Effect.forEach(sagaLogs, compensateSaga, {
+    concurrency: 5
+  })
+}).pipe(
+  // The next poll picks the sagas up again once the database is back
+  Effect.catchTag(
+    "PersistenceError",
+    (error) => Console.error(`[Compensation] Compensating sagas failed: ${error.message}`)
+  )
+)
+
+const pollingSchedule = (pollIntervalMs: number) =>
+  Schedule.fixed(pollIntervalMs).pipe(
+    Schedule.intersect(Schedule.forever)
+  )
+
+const startPolling = Effect.gen(function*() {
+  const config = yield* ConfigService
+
+  yield* Console.info(
+    `Starting compensation orchestrator with interval: ${config.pollIntervalMs}ms`
+  )
+
+  const fiber = yield* Effect.fork(
+    Effect.repeat(compensatePendingSagas, pollingSchedule(config.pollIntervalMs))
+  )
+
+  return fiber
+})
+
+class CompensationOrchestrator extends Context.Tag("@context/CompensationOrchestrator")<
+  CompensationOrchestrator,
+  Fiber.RuntimeFiber<[number, number]>
+>() {}
+
+const CompensationOrchestratorLive = Layer.scoped(
+  CompensationOrchestrator,
+  Effect.gen(function*() {
+    const fiber = yield* startPolling
+    return fiber
+  })
+)
+
+const PgLive = PgClient.layer({
+  database: "effect_pg_dev",
+  password: Redacted.make("password"),
+  transformQueryNames: String.camelToSnake,
+  transformResultNames: String.snakeToCamel,
+  username: "postgres"
+})
+
+export const ApplicationLayer = CompensationOrchestratorLive.pipe(
+  Layer.provide(
+    Layer.provideMerge(
+      Layer.mergeAll(
+        ConfigServiceLive,
+        OutboxRepositoryLive,
+        SagaLogRepositoryLive
+      ),
+      PgLive
+    )
+  )
+)
@@ -0,0 +1,65 @@
+import { HttpApiSchema } from "@effect/platform"
+import type { SqlError } from "@effect/sql/SqlError"
+import { Effect, Option, Schema } from "effect"
+import type { ParseError } from "effect/ParseResult"
+
+// The requested entity does not exist
+export class NotFound extends Schema.TaggedError<NotFound>()(
+  "NotFound",
+  {
+    entity: Schema.String,
+    message: Schema.String
+  },
+  HttpApiSchema.annotations({ status: 404 })
+) {}
+
+// The request contradicts the current state of an entity, e.g. an illegal status transition or a duplicate
+export class Conflict extends Schema.TaggedError<Conflict>()(
+  "Conflict",
+  {
+    message: Schema.String
+  },
+  HttpApiSchema.annotations({ status: 409 })
+) {}
+
+// The database could not be reached or its rows could not be read, the request may be retried
+export class PersistenceError extends Schema.TaggedError<PersistenceError>()(
+  "PersistenceError",
+  {
+    message: Schema.String
+  },
+  HttpApiSchema.annotations({ status: 503 })
+) {}
+
+// A provider the service depends on, e.g. the payment gateway or the carrier, could not be reached.
+// Nothing was decided, so the request may be retried with the same key
+export class Unavailable extends Schema.TaggedError<Unavailable>()(
+  "Unavailable",
+  {
+    message: Schema.String
+  },
+  HttpApiSchema.annotations({ status: 503 })
+) {}
+
+// Value of a lookup, NotFound when there is none
+export const orNotFound = (entity: string, id: string) => <A, E, R>(self: Effect.Effect<Option.Option<A>, E, R>) =>
+  Effect.flatMap(
+    self,
+    Option.match({
+      onNone: () => Effect.fail(new NotFound({ entity, message: `${entity} not found: ${id}` })),
+      onSome: Effect.succeed
+    })
+  )
+
+// Postgres `unique_violation`
+const isUniqueViolation = (error: SqlError) =>
+  typeof error.cause === "object" && error.cause !== null && "code" in error.cause && error.cause.code === "23505"
+
+export const fromSqlError = (error: SqlError) => new PersistenceError({ message: error.message })
+
+// Like `fromSqlError`, a row conflicting with a stored one on a unique constraint is a `Conflict`
+export const fromSqlErrorOrConflict = (error: SqlError): Effect.Effect<never, Conflict | PersistenceError> =>
+  isUniqueViolation(error) ? new Conflict({ message: error.message }) : fromSqlError(error)
+
+export const fromParseError = (error: ParseError) =>
+  new PersistenceError({ message: `Unreadable row: ${error.message}` })
@@ -0,0 +1,137 @@
+import { SqlClient } from "@effect/sql"
+import { Console, Context, Effect, Layer, Option, Schema } from "effect"
+import { fromParseError, fromSqlError, type PersistenceError } from "./DomainError.js"
+import { IdempotencyKey } from "./IdempotencyKey.js"
+
+const InboxSchema = Schema.Struct({
+  idempotencyKey: IdempotencyKey,
+  handler: Schema.String.annotations({ description: "Handler" }),
+  // JSON encoded response, null until the handler has completed
+  response: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
+    description: "Response"
+  }),
+  createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
+}).pipe(
+  Schema.annotations({ description: "Inbox", identifier: "Inbox" })
+)
+type InboxSchema = typeof InboxSchema.Type
+
+export class Inbox extends Schema.Class<Inbox>("Inbox")(InboxSchema) {
+  static decodeUnknown = Schema.decodeUnknown(Inbox)
+}
+
+export class InboxRepository extends Context.Tag("@context/InboxRepository")<
+  InboxRepository,
+  {
+    // Records the key for the handler unless already recorded, blocking while another transaction holds it
+    readonly claim: (options: {
+      handler: string
+      idempotencyKey: IdempotencyKey
+    }) => Effect.Effect<boolean, PersistenceError>
+    readonly findOne: (options: {
+      handler: string
+      idempotencyKey: IdempotencyKey
+    }) => Effect.Effect<Option.Option<Inbox>, PersistenceError>
+    readonly save: (data: Inbox) => Effect.Effect<Inbox, PersistenceError>
+  }
+>() {}
+
+export const InboxRepositoryLive = Layer.effect(
+  InboxRepository,
+  Effect.gen(function*() {
+    const sql = yield* SqlClient.SqlClient
+
+    yield* sql`
+CREATE TABLE IF NOT EXISTS tbl_inbox (
+    idempotency_key UUID NOT NULL,
+    handler VARCHAR(255) NOT NULL,
+    response TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (idempotency_key, handler)
+);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+
+    return {
+      claim: ({ handler, idempotencyKey }) =>
+        sql`
+INSERT INTO tbl_inbox ${sql.insert({ handler, idempotencyKey })}
+ON CONFLICT (idempotency_key, handler) DO NOTHING
+RETURNING *;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.map((rows) => rows.length > 0)
+        ),
+      findOne: ({ handler, idempotencyKey }) =>
+        sql`SELECT * FROM tbl_inbox WHERE idempotency_key = ${idempotencyKey} AND handler = ${handler} LIMIT 1`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), Inbox.decodeUnknown)),
+          Effect.catchTag("ParseError", fromParseError)
+        ),
+      save: (data) =>
+        sql`
+INSERT INTO tbl_inbox ${sql.insert({ ...data })}
+ON CONFLICT (idempotency_key, handler)
+DO UPDATE SET
+    response = EXCLUDED.response
+RETURNING *;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.succeed(rows[0])),
+          Effect.flatMap((row) => Inbox.decodeUnknown(row)),
+          Effect.catchTag("ParseError", fromParseError)
+        )
+    }
+  })
+)
+
+// Claims the key and runs `effect` once, storing its response encoded by `schema`
+const runOnce =
+  <A, I>(handler: string, idempotencyKey: IdempotencyKey, schema: Schema.Schema<A, I>) =>
+  <E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E | PersistenceError, InboxRepository | R> =>
+    Effect.gen(function*() {
+      const inboxRepository = yield* InboxRepository
+      const ResponseJson = Schema.parseJson(schema)
+
+      const claimed = yield* inboxRepository.claim({ handler, idempotencyKey })
+      if (!claimed) {
+        const inbox = yield* inboxRepository.findOne({ handler, idempotencyKey })
+        if (Option.isNone(inbox) || inbox.value.response === null) {
+          return yield* Effect.dieMessage(`[Inbox] ${handler} claimed without response for key: ${idempotencyKey}`)
+        }
+        yield* Console.log(`[Inbox] ${handler} already handled with key: ${idempotencyKey}`)
+        return yield* Schema.decode(ResponseJson)(inbox.value.response).pipe(Effect.catchTag("ParseError", Effect.die))
+      }
+      const response = yield* effect
+      yield* inboxRepository.save(
+        new Inbox({
+          idempotencyKey,
+          handler,
+          response: yield* Schema.encode(ResponseJson)(response).pipe(Effect.catchTag("ParseError", Effect.die))
+        })
+      )
+      return response
+    })
+
+// Runs the wrapped handler once per idempotency key, duplicates get the recorded response back.
+// Must run inside the handler's transaction, so that the claim is rolled back with it and a
+// concurrent duplicate blocks on the claim until the first delivery has committed.
+// `schema` encodes the response for storage
+export function withInbox<A, I>(options: {
+  readonly handler: string
+  readonly idempotencyKey: IdempotencyKey
+  readonly schema: Schema.Schema<A, I>
+}): <E, R>(effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E | PersistenceError, InboxRepository | R>
+// Without a schema the response is stored as plain JSON and a duplicate gets it back unknown
+export function withInbox(options: {
+  readonly handler: string
+  readonly idempotencyKey: IdempotencyKey
+}): <E, R>(effect: Effect.Effect<unknown, E, R>) => Effect.Effect<unknown, E | PersistenceError, InboxRepository | R>
+export function withInbox<A, I>(options: {
+  readonly handler: string
+  readonly idempotencyKey: IdempotencyKey
+  readonly schema?: Schema.Schema<A, I>
+}) {
+  return options.schema ?
+    runOnce(options.handler, options.idempotencyKey, options.schema) :
+    runOnce(options.handler, options.idempotencyKey, Schema.Unknown)
+}
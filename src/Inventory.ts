@@ -1,67 +1,68 @@
-import {
-  HttpApi,
-  HttpApiBuilder,
-  HttpApiEndpoint,
-  HttpApiGroup,
-  HttpMiddleware,
-  HttpServer,
-  OpenApi
-} from "@effect/platform"
+import { HttpApi, HttpApiBuilder, HttpMiddleware, HttpServer, OpenApi } from "@effect/platform"
 import { NodeHttpServer, NodeRuntime } from "@effect/platform-node"
 import * as HttpApiScalar from "@effect/platform/HttpApiScalar"
 import * as HttpApiSwagger from "@effect/platform/HttpApiSwagger"
 import { SqlClient } from "@effect/sql"
 import { PgClient } from "@effect/sql-pg"
-import { Console, Context, Effect, flow, Layer, Logger, LogLevel, Redacted, Schema, String } from "effect"
+import type { Fiber } from "effect"
+import {
+  Config,
+  Console,
+  Context,
+  Effect,
+  flow,
+  Layer,
+  Logger,
+  LogLevel,
+  Option,
+  Redacted,
+  Schedule,
+  String
+} from "effect"
 import * as http from "node:http"
 import { v7 as uuidv7 } from "uuid"
-import { IdempotencyKey } from "./IdempotencyKey.js"
+import {
+  Inventory,
+  InventoryHttpApiGroup,
+  InventoryReservation,
+  InventoryReservationId,
+  InventoryReservationsResponse,
+  InventoryStepResponse
+} from "./Api.js"
+import {
+  Conflict,
+  fromParseError,
+  fromSqlError,
+  fromSqlErrorOrConflict,
+  NotFound,
+  orNotFound,
+  type PersistenceError
+} from "./DomainError.js"
+import { InboxRepositoryLive, withInbox } from "./Inbox.js"
 import { InventoryId } from "./InventoryId.js"
-import { OrderId } from "./OrderId.js"
+import type { OrderId } from "./OrderId.js"
+import { OrderSaga } from "./OrderSaga.js"
 import {
   ApplicationLayer as OutboxApplicationLayer,
+  makeListenerLayer as makeOutboxListenerLayer,
   Outbox,
-  OutboxId,
   OutboxRepository,
   OutboxRepositoryLive
 } from "./Outbox.js"
-import { ProductId } from "./ProductId.js"
-import { SagaLog, SagaLogId, SagaLogRepository, SagaLogRepositoryLive } from "./SagaLog.js"
-
-const InventorySchemaStruct = Schema.Struct({
-  id: InventoryId,
-  compensationKey: Schema.optionalWith(Schema.NullOr(IdempotencyKey), { default: () => null }),
-  lastIdempotencyKey: Schema.optionalWith(Schema.NullOr(IdempotencyKey), { default: () => null }),
-  orderId: Schema.optionalWith(Schema.NullOr(OrderId), { default: () => null }),
-  productId: Schema.optionalWith(Schema.NullOr(ProductId), { default: () => null }),
-  quantity: Schema.Number.annotations({ description: "Quantity" }),
-  reservedQuantity: Schema.optionalWith(Schema.Number.annotations({ description: "Reserved Quantity" }), {
-    default: () => 0
-  })
-  // createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
-  // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
-  // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
-}).pipe(
-  Schema.annotations({ description: "InventoryData", identifier: "InventoryData" })
-)
-type InventorySchemaStruct = typeof InventorySchemaStruct.Type
-
-class Inventory extends Schema.Class<Inventory>("Inventory")(InventorySchemaStruct) {
-  static decodeUnknown = Schema.decodeUnknown(InventorySchemaStruct)
-}
+import type { ProductId } from "./ProductId.js"
+import * as Reservation from "./Reservation.js"
+import * as SagaDefinition from "./SagaDefinition.js"
+import { SagaLog, SagaLogRepository, SagaLogRepositoryLive } from "./SagaLog.js"
 
 class InventoryRepository extends Context.Tag("@context/InventoryRepository")<
   InventoryRepository,
   {
     readonly findOne: (options: {
-      compensationOrder?: {
-        compensationKey: IdempotencyKey
-        orderId: OrderId
-      }
-      lastIdempotencyKey?: IdempotencyKey
+      // Locks the product's row until the transaction ends, serializing reservations of the product
+      lock?: boolean
       productId?: ProductId
-    }) => Effect.Effect<Inventory>
-    readonly save: (data: Inventory) => Effect.Effect<Inventory>
+    }) => Effect.Effect<Option.Option<Inventory>, PersistenceError>
+    readonly save: (data: Inventory) => Effect.Effect<Inventory, PersistenceError>
   }
 >() {}
 
@@ -73,126 +74,204 @@ const InventoryRepositoryLive = Layer.effect(
     yield* sql`
 CREATE TABLE IF NOT EXISTS tbl_inventory (
     id UUID PRIMARY KEY,
-    compensation_key UUID,
-    last_idempotency_key UUID,
-    order_id UUID,
     product_id UUID,
-    quantity INTEGER NOT NULL CHECK (quantity >= 0),
-    reserved_quantity INTEGER DEFAULT 0 CHECK (reserved_quantity >= 0),
-    CONSTRAINT reserved_quantity_valid CHECK (reserved_quantity <= quantity)
+    quantity INTEGER NOT NULL CHECK (quantity >= 0)
 );
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
-CREATE INDEX IF NOT EXISTS idx_inventory_compensation_key_order_id ON tbl_inventory(compensation_key, order_id) WHERE compensation_key IS NOT NULL AND order_id IS NOT NULL;
-    `.pipe(Effect.catchTag("SqlError", Effect.die))
-    yield* sql`
-CREATE INDEX IF NOT EXISTS idx_inventory_last_idempotency_key ON tbl_inventory(last_idempotency_key);
-    `.pipe(Effect.catchTag("SqlError", Effect.die))
-    yield* sql`
 CREATE INDEX IF NOT EXISTS idx_inventory_product_id ON tbl_inventory(product_id);
     `.pipe(Effect.catchTag("SqlError", Effect.die))
 
+    // Stock held by open reservations, committed ones have already left the stock on hand
+    const reservedQuantity = sql`
+COALESCE((
+    SELECT SUM(quantity) FROM tbl_inventory_reservation
+    WHERE product_id = tbl_inventory.product_id AND status = 'RESERVED'
+), 0)::INTEGER AS reserved_quantity`
+
     return {
-      findOne: ({ compensationOrder, lastIdempotencyKey, productId }) =>
-        (compensationOrder ?
-          sql`SELECT * FROM tbl_inventory WHERE compensation_key = ${compensationOrder.compensationKey} AND order_id = ${compensationOrder.orderId} LIMIT 1` :
-          lastIdempotencyKey ?
-          sql`SELECT * FROM tbl_inventory WHERE last_idempotency_key = ${lastIdempotencyKey} LIMIT 1` :
-          productId ?
-          sql`SELECT * FROM tbl_inventory WHERE product_id = ${productId} LIMIT 1` :
-          sql`SELECT * FROM tbl_inventory LIMIT 1`).pipe(
-            Effect.catchTag("SqlError", Effect.die),
-            Effect.flatMap((rows) => Effect.succeed(rows[0])),
-            Effect.flatMap((row) => Inventory.decodeUnknown(row)),
-            Effect.catchTag("ParseError", Effect.die)
+      findOne: ({ lock, productId }) =>
+        (productId ?
+          lock ?
+            sql`SELECT *, ${reservedQuantity} FROM tbl_inventory WHERE product_id = ${productId} LIMIT 1 FOR UPDATE` :
+            sql`SELECT *, ${reservedQuantity} FROM tbl_inventory WHERE product_id = ${productId} LIMIT 1` :
+          sql`SELECT *, ${reservedQuantity} FROM tbl_inventory LIMIT 1`).pipe(
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), Inventory.decodeUnknown)),
+            Effect.catchTag("ParseError", fromParseError)
           ),
       save: (data) =>
         sql`
-INSERT INTO tbl_inventory ${sql.insert({ ...data })}
+INSERT INTO tbl_inventory ${sql.insert({ id: data.id, productId: data.productId, quantity: data.quantity })}
 ON CONFLICT (id) 
 DO UPDATE SET
-    compensation_key = EXCLUDED.compensation_key,
-    last_idempotency_key = EXCLUDED.last_idempotency_key,
-    order_id = EXCLUDED.order_id,
     product_id = EXCLUDED.product_id,
-    quantity = EXCLUDED.quantity,
-    reserved_quantity = EXCLUDED.reserved_quantity
-RETURNING *;
+    quantity = EXCLUDED.quantity
+RETURNING *, ${reservedQuantity};
 `.pipe(
-          Effect.catchTag("SqlError", Effect.die),
+          Effect.catchTag("SqlError", fromSqlError),
           Effect.flatMap((rows) => Effect.succeed(rows[0])),
           Effect.flatMap((row) => Inventory.decodeUnknown(row)),
-          Effect.catchTag("ParseError", Effect.die)
+          Effect.catchTag("ParseError", fromParseError)
         )
     }
   })
 )
 
-const InventoryUpdateRequest = Schema.Struct({
-  orderId: OrderId,
-  productId: ProductId,
-  quantity: Schema.Number.annotations({ description: "Quantity" }),
-  sagaLogId: SagaLogId
-}).pipe(
-  Schema.annotations({ description: "Inventory Update Request", identifier: "InventoryUpdateRequest" })
-)
-type InventoryUpdateRequest = typeof InventoryUpdateRequest.Type
-
-const InventoryCompensateRequest = Schema.Struct({
-  orderId: OrderId,
-  productId: ProductId,
-  quantity: Schema.Number.annotations({ description: "Quantity" }),
-  sagaLogId: SagaLogId
-}).pipe(
-  Schema.annotations({ description: "Inventory Compensate Request", identifier: "InventoryCompensateRequest" })
-)
-type InventoryCompensateRequest = typeof InventoryCompensateRequest.Type
+class InventoryReservationRepository extends Context.Tag("@context/InventoryReservationRepository")<
+  InventoryReservationRepository,
+  {
+    // Locks open reservations older than `ttlMs` whose saga has not moved past UPDATE_INVENTORY, skipping locked ones
+    readonly findExpired: (options: {
+      batchSize: number
+      ttlMs: number
+    }) => Effect.Effect<Array<InventoryReservation>, PersistenceError>
+    // Reservations of the order's lines, by product
+    readonly findAll: (options: {
+      orderId: OrderId
+    }) => Effect.Effect<Array<InventoryReservation>, PersistenceError>
+    // A second reservation of the order's product is a Conflict
+    readonly save: (data: InventoryReservation) => Effect.Effect<InventoryReservation, Conflict | PersistenceError>
+  }
+>() {}
 
-const InventoryInitializeRequest = Schema.Struct({
-  productId: ProductId,
-  quantity: Schema.Number.annotations({ description: "Quantity" })
-}).pipe(
-  Schema.annotations({ description: "Inventory Compensate Request", identifier: "InventoryInitializeRequest" })
-)
-type InventoryInitializeRequest = typeof InventoryInitializeRequest.Type
-
-class InventoryHttpApiGroup extends HttpApiGroup.make("inventory")
-  .add(
-    HttpApiEndpoint.post("update", "/update")
-      .addSuccess(Schema.Struct({}))
-      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(InventoryUpdateRequest)
-      .annotate(OpenApi.Description, "Inventory Update")
-      .annotate(OpenApi.Summary, "Inventory Update")
-  )
-  .add(
-    HttpApiEndpoint.post("compensate", "/compensate")
-      .addSuccess(Schema.Struct({}))
-      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(InventoryCompensateRequest)
-      .annotate(OpenApi.Description, "Inventory Compensate")
-      .annotate(OpenApi.Summary, "Inventory Compensate")
-  )
-  .add(
-    HttpApiEndpoint.post("initialize", "/initialize")
-      .addSuccess(Schema.Struct({}))
-      // .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(InventoryInitializeRequest)
-      .annotate(OpenApi.Description, "Inventory Compensate")
-      .annotate(OpenApi.Summary, "Inventory Compensate")
-  )
-  .add(
-    HttpApiEndpoint.get("get", "/:productId")
-      .addSuccess(Schema.Struct({}))
-      .setPath(Schema.Struct({ productId: ProductId }))
-      .annotate(OpenApi.Description, "Inventory Get")
-      .annotate(OpenApi.Summary, "Inventory Get")
+const InventoryReservationRepositoryLive = Layer.effect(
+  InventoryReservationRepository,
+  Effect.gen(function*() {
+    const sql = yield* SqlClient.SqlClient
+
+    yield* sql`
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_type WHERE typname = 'inventory_reservation_status'
+  ) THEN
+    CREATE TYPE inventory_reservation_status AS ENUM ('RESERVED', 'COMMITTED', 'RELEASED');
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE TABLE IF NOT EXISTS tbl_inventory_reservation (
+    id UUID PRIMARY KEY,
+    idempotency_key UUID NOT NULL,
+    order_id UUID NOT NULL,
+    product_id UUID NOT NULL,
+    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    release_key UUID,
+    saga_log_id UUID NOT NULL,
+    status inventory_reservation_status NOT NULL DEFAULT 'RESERVED',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_reservation_order_id_product_id ON tbl_inventory_reservation(order_id, product_id);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE INDEX IF NOT EXISTS idx_inventory_reservation_product_id ON tbl_inventory_reservation(product_id) WHERE status IN ('RESERVED', 'COMMITTED');
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE INDEX IF NOT EXISTS idx_inventory_reservation_created_at ON tbl_inventory_reservation(created_at) WHERE status = 'RESERVED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Per-order markers and reserved stock of tbl_inventory move to the ledger. `reserved_quantity` only totals
+    // a product's reservations and `order_id` names the last order compensated, so the sagas whose inventory step
+    // took effect name the orders and lines the stock was reserved for
+    yield* sql`
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'tbl_inventory' AND column_name = 'reserved_quantity'
+  ) THEN
+    WITH reservation AS (
+      -- Sagas of a single product predate the lines
+      SELECT s.id AS saga_log_id, s.idempotency_key, s.order_id, s.status AS saga_status, step.status AS step_status,
+        (line->>'productId')::UUID AS product_id, SUM((line->>'quantity')::INTEGER)::INTEGER AS quantity
+      FROM tbl_saga_log s
+      CROSS JOIN LATERAL unnest(s.steps) AS step
+      CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_array_length(COALESCE(to_jsonb(s)->'lines', '[]')) > 0 THEN to_jsonb(s)->'lines'
+        ELSE jsonb_build_array(jsonb_build_object('productId', to_jsonb(s)->'product_id', 'quantity', to_jsonb(s)->'quantity'))
+        END
+      ) AS line
+      WHERE s.order_id IS NOT NULL AND step.name = 'UPDATE_INVENTORY' AND step.status IN ('COMPLETED', 'COMPENSATED')
+      GROUP BY s.id, s.idempotency_key, s.order_id, s.status, step.status, line->>'productId'
+    ),
+    ledger AS (
+      -- The reservation's own key was not kept, the saga's stands in for it
+      INSERT INTO tbl_inventory_reservation
+        (id, idempotency_key, order_id, product_id, quantity, release_key, saga_log_id, status)
+      SELECT gen_random_uuid(), r.idempotency_key, r.order_id, r.product_id, r.quantity,
+        CASE WHEN r.step_status = 'COMPENSATED' AND i.order_id = r.order_id THEN i.compensation_key END,
+        r.saga_log_id,
+        (CASE
+          WHEN r.step_status = 'COMPENSATED' THEN 'RELEASED'
+          WHEN r.saga_status = 'COMPLETED' THEN 'COMMITTED'
+          ELSE 'RESERVED'
+        END)::inventory_reservation_status
+      FROM reservation r JOIN tbl_inventory i ON i.product_id = r.product_id
+      WHERE r.quantity > 0
+      ON CONFLICT DO NOTHING
+      RETURNING product_id, quantity, status
+    )
+    -- Reserved stock had left the stock on hand, a ledger reservation holds it within the stock on hand instead
+    UPDATE tbl_inventory i SET quantity = i.quantity + held.quantity
+    FROM (
+      SELECT product_id, SUM(quantity)::INTEGER AS quantity FROM ledger WHERE status = 'RESERVED' GROUP BY product_id
+    ) AS held
+    WHERE held.product_id = i.product_id;
+    ALTER TABLE tbl_inventory
+      DROP COLUMN IF EXISTS compensation_key,
+      DROP COLUMN IF EXISTS last_idempotency_key,
+      DROP COLUMN IF EXISTS order_id,
+      DROP COLUMN IF EXISTS reserved_quantity;
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+
+    return {
+      findExpired: ({ batchSize, ttlMs }) =>
+        sql`
+SELECT r.* FROM tbl_inventory_reservation r
+JOIN tbl_saga_log s ON s.id = r.saga_log_id
+WHERE r.status = 'RESERVED'
+  AND r.created_at < CURRENT_TIMESTAMP - ${ttlMs} * INTERVAL '1 millisecond'
+  AND s.status <> 'COMPLETED'
+  AND NOT EXISTS (
+    SELECT 1 FROM unnest(s.steps) AS step
+    WHERE step.name::text IN ${sql.in(Reservation.stepsAfterReservation)} AND step.status <> 'PENDING'
   )
-  .annotate(OpenApi.Description, "Manage Inventory")
-  .annotate(OpenApi.Summary, "Manage Inventory")
-  .annotate(OpenApi.Title, "Inventory")
-  .prefix("/inventory")
-{}
+ORDER BY r.created_at
+LIMIT ${batchSize}
+FOR UPDATE OF r SKIP LOCKED;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.all(rows.map((row) => InventoryReservation.decodeUnknown(row)))),
+          Effect.catchTag("ParseError", fromParseError)
+        ),
+      findAll: ({ orderId }) =>
+        sql`SELECT * FROM tbl_inventory_reservation WHERE order_id = ${orderId} ORDER BY product_id`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.all(rows.map((row) => InventoryReservation.decodeUnknown(row)))),
+          Effect.catchTag("ParseError", fromParseError)
+        ),
+      save: (data) =>
+        sql`
+INSERT INTO tbl_inventory_reservation ${sql.insert({ ...data })}
+ON CONFLICT (id) 
+DO UPDATE SET
+    release_key = EXCLUDED.release_key,
+    status = EXCLUDED.status
+RETURNING *;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlErrorOrConflict),
+          Effect.flatMap((rows) => Effect.succeed(rows[0])),
+          Effect.flatMap((row) => InventoryReservation.decodeUnknown(row)),
+          Effect.catchTag("ParseError", fromParseError)
+        )
+    }
+  })
+)
 
 const Api = HttpApi.make("api")
   .add(InventoryHttpApiGroup)
@@ -207,42 +286,52 @@ const InventoryHttpApiLive = HttpApiBuilder.group(
   (handlers) =>
     Effect.gen(function*() {
       const inventoryRepository = yield* InventoryRepository
+      const inventoryReservationRepository = yield* InventoryReservationRepository
       const sagaLogRepository = yield* SagaLogRepository
       const outboxRepository = yield* OutboxRepository
+      const sql = yield* SqlClient.SqlClient
 
       return handlers.handle(
         "update",
-        ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, productId, quantity, sagaLogId } }) =>
+        ({ headers: { "idempotency-key": idempotencyKey }, payload: { lines, orderId, sagaLogId } }) =>
           Effect.gen(function*() {
             yield* Console.log(
-              `[Inventory Service] Inventory update ${{ idempotencyKey, orderId, productId, quantity, sagaLogId }}`
+              `[Inventory Service] Inventory update ${{ idempotencyKey, lines, orderId, sagaLogId }}`
             )
-            const existingInventoryLog = yield* inventoryRepository.findOne({
-              lastIdempotencyKey: idempotencyKey
-            })
-            if (existingInventoryLog) {
-              yield* Console.log(`[Inventory Service] Inventory already updated with key: ${idempotencyKey}`)
+            // Get saga log to track progress
+            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId }).pipe(orNotFound("SagaLog", sagaLogId))
+            // Check if the order already holds its reservations
+            const existingReservations = yield* inventoryReservationRepository.findAll({ orderId })
+            if (existingReservations.length > 0) {
+              yield* Console.log(`[Inventory Service] Inventory already reserved for order: ${orderId}`)
+              if (existingReservations.some((reservation) => reservation.status === "RELEASED")) {
+                return yield* new Conflict({ message: `Reservation already released for order: ${orderId}` })
+              }
               return {
-                data: existingInventoryLog,
-                message: "Inventory already updated",
+                data: existingReservations,
+                message: "Inventory already reserved",
                 success: true
               }
             }
-            // Get saga log to track progress
-            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId })
-            // Execute inventory update without transaction
-            let inventory = yield* inventoryRepository.findOne({ productId })
-            if (!inventory) {
-              // Initialize inventory with default stock of 100 units
-              inventory = new Inventory({
-                id: InventoryId.make(uuidv7()),
-                productId,
-                quantity: 100,
-                reservedQuantity: 0
-              })
-              yield* inventoryRepository.save(inventory)
-              yield* Console.log(`[Inventory Service] Initialized inventory for product ${productId} with 100 units`)
-            }
+            // Execute inventory update in a single transaction, locking products in a stable order to avoid deadlocks
+            const quantities = Reservation.quantitiesByProduct(lines)
+            const productIds = quantities.map(({ productId }) => productId)
+            const inventories = yield* Effect.forEach(productIds, (productId) =>
+              Effect.gen(function*() {
+                const inventory = yield* inventoryRepository.findOne({ lock: true, productId })
+                if (Option.isSome(inventory)) {
+                  return inventory.value
+                }
+                // Initialize inventory with default stock of 100 units
+                yield* Console.log(`[Inventory Service] Initialized inventory for product ${productId} with 100 units`)
+                return yield* inventoryRepository.save(
+                  new Inventory({
+                    id: InventoryId.make(uuidv7()),
+                    productId,
+                    quantity: 100
+                  })
+                )
+              }))
             // Update saga log
             sagaLog = new SagaLog({
               ...sagaLog,
@@ -253,35 +342,43 @@ const InventoryHttpApiLive = HttpApiBuilder.group(
               )
             })
             yield* sagaLogRepository.save(sagaLog)
-            // Check if there's enough inventory
-            if (inventory.quantity - inventory.reservedQuantity < quantity) {
-              yield* Console.log(`[Inventory Service] Insufficient inventory for product: ${productId}`)
+            // Check if there's enough inventory for every line, reserving none of them otherwise
+            const insufficientProductIds = quantities.flatMap(({ productId, quantity }, index) =>
+              inventories[index].quantity - inventories[index].reservedQuantity < quantity ? [productId] : []
+            )
+            if (insufficientProductIds.length > 0) {
+              const error = `Insufficient inventory for products: ${insufficientProductIds.join(", ")}`
+              yield* Console.log(`[Inventory Service] ${error}`)
               // Update saga log
               sagaLog = new SagaLog({
                 ...sagaLog,
                 steps: sagaLog.steps.map((step) =>
                   step.name === "UPDATE_INVENTORY"
-                    ? { ...step, status: "FAILED", error: "Insufficient inventory" }
+                    ? { ...step, status: "FAILED", error }
                     : step
                 )
               })
               yield* sagaLogRepository.save(sagaLog)
               // throw new Error("Insufficient inventory")
               return {
-                error: "Insufficient inventory",
+                error,
                 message: "Error updating inventory",
                 success: false
               }
             }
-            // Update inventory - reduce available quantity and increase reserved
-            inventory = new Inventory({
-              ...inventory,
-              quantity: inventory.quantity - quantity,
-              reservedQuantity: inventory.reservedQuantity + quantity,
-              lastIdempotencyKey: idempotencyKey
-            })
-            yield* inventoryRepository.save(inventory)
-            yield* Console.log(`[Inventory Service] Inventory updated for product: ${productId}`)
+            // Reserve the stock for the order, available stock is derived from the reservations
+            const reservations = yield* Effect.forEach(quantities, (line) =>
+              inventoryReservationRepository.save(
+                new InventoryReservation({
+                  id: InventoryReservationId.make(uuidv7()),
+                  idempotencyKey,
+                  orderId,
+                  productId: line.productId,
+                  quantity: line.quantity,
+                  sagaLogId
+                })
+              ))
+            yield* Console.log(`[Inventory Service] Inventory reserved for products: ${productIds.join(", ")}`)
             // Update saga log
             // inventoryStep.status = "COMPLETED"
             sagaLog = new SagaLog({
@@ -295,74 +392,133 @@ const InventoryHttpApiLive = HttpApiBuilder.group(
             yield* sagaLogRepository.save(sagaLog)
             // Write shipping event to Outbox
             yield* Console.log(`[Inventory Service] Writing shipping event to Outbox`)
-            const outboxEntry = new Outbox({
-              id: OutboxId.make(uuidv7()),
-              aggregateId: orderId,
-              eventType: "INVENTORY_UPDATED",
-              payload: {
-                customerId: sagaLog.customerId || "unknown",
-                orderId,
-                sagaLogId
-              },
-              targetService: "SHIPPING",
-              targetEndpoint: "/shipments/deliver-order",
-              isPublished: false
-            })
-            yield* outboxRepository.save(outboxEntry)
-            yield* Console.log(`[Inventory Service] Shipping event written to Outbox: ${outboxEntry.id}`)
+            yield* Effect.transposeMapOption(SagaDefinition.next(OrderSaga, "UPDATE_INVENTORY", sagaLog), (dispatch) =>
+              Effect.gen(function*() {
+                const outboxEntry = yield* outboxRepository.save(
+                  yield* Outbox.fromEvent(orderId, dispatch)
+                )
+                yield* Console.log(`[Inventory Service] Shipping event written to Outbox: ${outboxEntry.id}`)
+              }))
             yield* Console.log(`[Inventory Service] Saga will be completed when Shipping processes event\n`)
 
             // return { inventory, outboxEntry }
             return {
-              data: inventory,
+              data: reservations,
               message: "Inventory update successfully",
               success: true
             }
-          })
+          }).pipe(
+            withInbox({ handler: "inventory.update", idempotencyKey, schema: InventoryStepResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
       ).handle(
         "compensate",
-        ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, productId, quantity, sagaLogId } }) =>
+        ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, sagaLogId } }) =>
           Effect.gen(function*() {
             yield* Console.log(
-              `[Inventory Service] Inventory compensate ${{ idempotencyKey, orderId, productId, quantity, sagaLogId }}`
+              `[Inventory Service] Inventory compensate ${{ idempotencyKey, orderId, sagaLogId }}`
             )
-            // Check if already compensated
-            let inventory = yield* inventoryRepository.findOne({
-              compensationOrder: { compensationKey: idempotencyKey, orderId }
-            })
-            if (inventory) {
-              yield* Console.log(`[Inventory Service] Inventory already compensated with key: ${idempotencyKey}`)
-              return {
-                data: inventory,
-                message: "Inventory already compensated",
-                success: true
-              }
-            }
-            inventory = yield* inventoryRepository.findOne({ productId })
-            if (!inventory) {
-              // throw new Error("Inventory not found")
+            // Get saga log to track compensation progress
+            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId }).pipe(orNotFound("SagaLog", sagaLogId))
+            let reservations = yield* inventoryReservationRepository.findAll({ orderId })
+            if (
+              reservations.length === 0 || reservations.some((reservation) =>
+                reservation.status === "COMMITTED"
+              )
+            ) {
+              const error = reservations.length > 0 ? "Reservation already committed" : "Reservation not found"
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "UPDATE_INVENTORY"
+                    ? { ...step, compensationStatus: "FAILED", error }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
+              // throw new Error("Reservation not found")
               return {
-                message: "Inventory not found",
+                message: error,
                 success: false
               }
             }
-            // Restore inventory
-            inventory = new Inventory({
-              ...inventory,
-              compensationKey: idempotencyKey,
-              orderId,
-              quantity: inventory.quantity + quantity,
-              reservedQuantity: Math.max(0, inventory.reservedQuantity - quantity)
+            // Release every line's reservation, returning its stock to the available stock
+            reservations = yield* Effect.forEach(reservations, (reservation) =>
+              reservation.status === "RESERVED" ?
+                inventoryReservationRepository.save(Reservation.release(reservation, idempotencyKey)) :
+                Effect.succeed(reservation))
+            yield* Console.log(`[Inventory Service] Inventory compensated for order: ${orderId}`)
+            // Update saga log
+            sagaLog = new SagaLog({
+              ...sagaLog,
+              steps: sagaLog.steps.map((step) =>
+                step.name === "UPDATE_INVENTORY"
+                  ? { ...step, compensationStatus: "COMPLETED", status: "COMPENSATED", timestamp: new Date() }
+                  : step
+              )
             })
-            yield* inventoryRepository.save(inventory)
-            yield* Console.log(`[Inventory Service] Inventory compensated for product: ${productId}`)
+            yield* sagaLogRepository.save(sagaLog)
 
             return {
-              data: inventory,
+              data: reservations,
               message: "Inventory compensated successfully",
               success: true
             }
-          })
+          }).pipe(
+            withInbox({ handler: "inventory.compensate", idempotencyKey, schema: InventoryStepResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
+      ).handle(
+        "commit",
+        ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, sagaLogId } }) =>
+          Effect.gen(function*() {
+            yield* Console.log(
+              `[Inventory Service] Inventory commit ${{ idempotencyKey, orderId, sagaLogId }}`
+            )
+            let reservations = yield* inventoryReservationRepository.findAll({ orderId })
+            if (reservations.length === 0) {
+              return yield* new NotFound({
+                entity: "InventoryReservation",
+                message: `Reservation not found for order: ${orderId}`
+              })
+            }
+            if (reservations.some((reservation) => reservation.status === "RELEASED")) {
+              yield* Console.error(`[Inventory Service] Reservation already released for order: ${orderId}`)
+              return yield* new Conflict({ message: `Reservation already released for order: ${orderId}` })
+            }
+            // Sold stock leaves the stock on hand together with its reservation
+            reservations = yield* Effect.forEach(reservations, (reservation) =>
+              Effect.gen(function*() {
+                if (reservation.status !== "RESERVED") {
+                  return reservation
+                }
+                const inventory = yield* inventoryRepository.findOne({ lock: true, productId: reservation.productId })
+                  .pipe(
+                    orNotFound("Inventory", reservation.productId)
+                  )
+                yield* inventoryRepository.save(
+                  new Inventory({
+                    ...inventory,
+                    quantity: inventory.quantity - reservation.quantity
+                  })
+                )
+                return yield* inventoryReservationRepository.save(Reservation.commit(reservation))
+              }))
+            yield* Console.log(`[Inventory Service] Inventory committed for order: ${orderId}`)
+
+            return {
+              data: reservations,
+              message: "Inventory committed successfully",
+              success: true
+            }
+          }).pipe(
+            withInbox({ handler: "inventory.commit", idempotencyKey, schema: InventoryReservationsResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
       ).handle(
         "initialize",
         ({ payload: { productId, quantity } }) =>
@@ -370,41 +526,33 @@ const InventoryHttpApiLive = HttpApiBuilder.group(
             yield* Console.log(
               `[Inventory Service] Inventory initialize ${{ productId, quantity }}`
             )
-            let inventory = yield* inventoryRepository.findOne({ productId })
-            if (!inventory) {
-              inventory = new Inventory({
-                id: InventoryId.make(uuidv7()),
-                productId,
-                quantity,
-                reservedQuantity: 0
-              })
-            } else {
-              inventory = new Inventory({
-                ...inventory,
-                quantity: inventory.quantity + quantity
-              })
-            }
-            yield* inventoryRepository.save(inventory)
+            const existingInventory = yield* inventoryRepository.findOne({ lock: true, productId })
+            const inventory = yield* inventoryRepository.save(Option.match(existingInventory, {
+              onNone: () =>
+                new Inventory({
+                  id: InventoryId.make(uuidv7()),
+                  productId,
+                  quantity
+                }),
+              onSome: (inventory) =>
+                new Inventory({
+                  ...inventory,
+                  quantity: inventory.quantity + quantity
+                })
+            }))
 
             return {
               data: inventory,
               message: "Inventory initialized",
               success: true
             }
-          })
+          }).pipe(sql.withTransaction, Effect.catchTag("SqlError", fromSqlError))
       ).handle("get", ({ path: { productId } }) =>
         Effect.gen(function*() {
           yield* Console.log(
             `[Inventory Service] Inventory initialize ${{ productId }}`
           )
-          const inventory = yield* inventoryRepository.findOne({ productId })
-          if (!inventory) {
-            // throw new Error("Inventory not found")
-            return {
-              message: "Inventory not found",
-              success: false
-            }
-          }
+          const inventory = yield* inventoryRepository.findOne({ productId }).pipe(orNotFound("Inventory", productId))
 
           return {
             data: inventory,
@@ -415,6 +563,111 @@ const InventoryHttpApiLive = HttpApiBuilder.group(
     })
 )
 
+class ConfigService extends Context.Tag("@context/InventoryConfigService")<
+  ConfigService,
+  {
+    readonly reservationBatchSize: number
+    readonly reservationSweepIntervalMs: number
+    readonly reservationTtlMs: number
+  }
+>() {}
+
+const ConfigServiceLive = Layer.effect(
+  ConfigService,
+  Effect.gen(function*() {
+    const reservationBatchSize = yield* Config.integer("RESERVATION_BATCH_SIZE").pipe(
+      Config.withDefault(10)
+    )
+    const reservationSweepIntervalMs = yield* Config.number("RESERVATION_SWEEP_INTERVAL_MS").pipe(
+      Config.withDefault(60000)
+    )
+    const reservationTtlMs = yield* Config.integer("RESERVATION_TTL_MS").pipe(
+      Config.withDefault(900000)
+    )
+
+    return {
+      reservationBatchSize,
+      reservationSweepIntervalMs,
+      reservationTtlMs
+    }
+  })
+)
+
+const releaseExpiredReservation = (reservation: InventoryReservation) =>
+  Effect.gen(function*() {
+    const config = yield* ConfigService
+    const inventoryReservationRepository = yield* InventoryReservationRepository
+    const sagaLogRepository = yield* SagaLogRepository
+
+    const sagaLog = yield* sagaLogRepository.findOne({ sagaLogId: reservation.sagaLogId }).pipe(
+      orNotFound("SagaLog", reservation.sagaLogId)
+    )
+    // The saga may have moved on since the sweep found the reservation
+    if (!Reservation.isExpired(reservation, sagaLog, { now: new Date(), ttlMs: config.reservationTtlMs })) {
+      return
+    }
+    yield* inventoryReservationRepository.save(Reservation.release(reservation))
+    yield* sagaLogRepository.save(Reservation.expire(sagaLog))
+    yield* Console.log(
+      `[Inventory Service] Reservation expired, released ${reservation.quantity} of product ${reservation.productId} for order: ${reservation.orderId}`
+    )
+  })
+
+const releaseExpiredReservations = Effect.gen(function*() {
+  const config = yield* ConfigService
+  const inventoryReservationRepository = yield* InventoryReservationRepository
+  const sql = yield* SqlClient.SqlClient
+
+  yield* Effect.gen(function*() {
+    const reservations = yield* inventoryReservationRepository.findExpired({
+      batchSize: config.reservationBatchSize,
+      ttlMs: config.reservationTtlMs
+    })
+    if (reservations.length === 0) {
+      return
+    }
+    yield* Console.info(`Found ${reservations.length} expired reservations`)
+    yield* Effect.forEach(reservations, releaseExpiredReservation)
+  }).pipe(
+    sql.withTransaction,
+    Effect.catchTag("SqlError", fromSqlError),
+    // The sweep is rolled back, the next one releases the reservations again
+    Effect.catchAll((error) => Console.error(`Releasing expired reservations failed: ${error.message}`))
+  )
+})
+
+const pollingSchedule = (pollIntervalMs: number) =>
+  Schedule.fixed(pollIntervalMs).pipe(
+    Schedule.intersect(Schedule.forever)
+  )
+
+const startPolling = Effect.gen(function*() {
+  const config = yield* ConfigService
+
+  yield* Console.info(
+    `Starting reservation reaper with TTL: ${config.reservationTtlMs}ms, interval: ${config.reservationSweepIntervalMs}ms`
+  )
+
+  const fiber = yield* Effect.fork(
+    Effect.repeat(releaseExpiredReservations, pollingSchedule(config.reservationSweepIntervalMs))
+  )
+
+  return fiber
+})
+
+class ReservationReaper extends Context.Tag("@context/ReservationReaper")<
+  ReservationReaper,
+  Fiber.RuntimeFiber<[number, number]>
+>() {}
+
+const ReservationReaperLive = Layer.scoped(
+  ReservationReaper,
+  Effect.gen(function*() {
+    const fiber = yield* startPolling
+    return fiber
+  })
+)
+
 const PgLive = PgClient.layer({
   database: "effect_pg_dev",
   password: Redacted.make("password"),
@@ -423,12 +676,16 @@ const PgLive = PgClient.layer({
   username: "postgres"
 })
 
-const ApplicationLayer = InventoryHttpApiLive.pipe(
+const ApplicationLayer = Layer.mergeAll(InventoryHttpApiLive, ReservationReaperLive).pipe(
   Layer.provide(
     Layer.provideMerge(
       Layer.mergeAll(
+        ConfigServiceLive,
+        InboxRepositoryLive,
         InventoryRepositoryLive,
+        InventoryReservationRepositoryLive,
         OutboxApplicationLayer,
+        makeOutboxListenerLayer("INVENTORY"),
         OutboxRepositoryLive,
         SagaLogRepositoryLive
       ),
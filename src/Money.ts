@@ -0,0 +1,109 @@
+import { BigDecimal, Data, Schema } from "effect"
+
+export const Currency = Schema.String.pipe(
+  Schema.pattern(/^[A-Z]{3}$/),
+  Schema.brand("Currency"),
+  Schema.annotations({ description: "ISO 4217 Currency Code" })
+)
+export type Currency = typeof Currency.Type
+
+// Amount in the currency's minor units (e.g. cents), so that arithmetic is exact.
+// Stored as JSONB columns, CHECK constraints reach the amount through `column->>'amount'`
+export const Money = Schema.Struct({
+  amount: Schema.Int.annotations({ description: "Amount in minor units" }),
+  currency: Currency
+}).pipe(
+  Schema.annotations({ description: "Money", identifier: "Money" })
+)
+export type Money = typeof Money.Type
+
+// Arithmetic across currencies is a programming error, it throws and so dies inside an Effect
+export class CurrencyMismatchError extends Data.TaggedError("CurrencyMismatchError")<{
+  readonly currencies: ReadonlyArray<Currency>
+}> {
+  get message() {
+    return `Currency mismatch: ${this.currencies.join(", ")}`
+  }
+}
+
+// Minor units per major unit, currencies not listed have two decimals
+const exponents: Partial<Record<string, number>> = { BHD: 3, JPY: 0, KRW: 0, KWD: 3, OMR: 3, TND: 3 }
+const defaultExponent = 2
+
+export const exponent = (currency: Currency) => exponents[currency] ?? defaultExponent
+
+// Minor units per major unit of the currency in the SQL expression `currency`, for migrating DECIMAL amounts
+export const sqlMinorUnits = (currency: string) =>
+  `CASE ${currency} ${
+    Object.keys(exponents).map((code) => `WHEN '${code}' THEN ${10 ** exponent(Currency.make(code))}`).join(" ")
+  } ELSE ${10 ** defaultExponent} END`
+
+export const make = (amount: number, currency: Currency): Money => Money.make({ amount, currency })
+
+export const zero = (currency: Currency) => make(0, currency)
+
+// Amount given in major units (e.g. 12.34 dollars), rounded to the currency's minor units
+export const fromMajor = (
+  value: number | string,
+  currency: Currency,
+  mode: BigDecimal.RoundingMode = "half-even"
+) =>
+  make(
+    BigDecimal.unsafeToNumber(BigDecimal.round(
+      BigDecimal.multiply(
+        typeof value === "number" ? BigDecimal.unsafeFromNumber(value) : BigDecimal.unsafeFromString(value),
+        BigDecimal.make(1n, -exponent(currency))
+      ),
+      { mode, scale: 0 }
+    )),
+    currency
+  )
+
+// Amount in major units, for display and interop only
+export const toMajor = (money: Money) =>
+  BigDecimal.unsafeToNumber(BigDecimal.make(BigInt(money.amount), exponent(money.currency)))
+
+export const format = (money: Money) => `${toMajor(money).toFixed(exponent(money.currency))} ${money.currency}`
+
+const assertSameCurrency = (self: Money, that: Money) => {
+  if (self.currency !== that.currency) {
+    throw new CurrencyMismatchError({ currencies: [self.currency, that.currency] })
+  }
+}
+
+export const add = (self: Money, that: Money) => {
+  assertSameCurrency(self, that)
+  return make(self.amount + that.amount, self.currency)
+}
+
+export const subtract = (self: Money, that: Money) => {
+  assertSameCurrency(self, that)
+  return make(self.amount - that.amount, self.currency)
+}
+
+// Multiplies by a quantity or rate, rounding the result to minor units
+export const multiply = (self: Money, factor: number, mode: BigDecimal.RoundingMode = "half-even") =>
+  make(
+    BigDecimal.unsafeToNumber(BigDecimal.round(
+      BigDecimal.multiply(BigDecimal.fromBigInt(BigInt(self.amount)), BigDecimal.unsafeFromNumber(factor)),
+      { mode, scale: 0 }
+    )),
+    self.currency
+  )
+
+export const sum = (currency: Currency, moneys: Iterable<Money>) => {
+  let total = zero(currency)
+  for (const money of moneys) {
+    total = add(total, money)
+  }
+  return total
+}
+
+export const equals = (self: Money, that: Money) => self.currency === that.currency && self.amount === that.amount
+
+export const greaterThan = (self: Money, that: Money) => {
+  assertSameCurrency(self, that)
+  return self.amount > that.amount
+}
+
+export const isPositive = (money: Money) => money.amount > 0
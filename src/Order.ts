@@ -1,63 +1,46 @@
-import {
-  HttpApi,
-  HttpApiBuilder,
-  HttpApiEndpoint,
-  HttpApiGroup,
-  HttpMiddleware,
-  HttpServer,
-  OpenApi
-} from "@effect/platform"
+import { HttpApi, HttpApiBuilder, HttpMiddleware, HttpServer, OpenApi } from "@effect/platform"
 import { NodeHttpServer, NodeRuntime } from "@effect/platform-node"
 import * as HttpApiScalar from "@effect/platform/HttpApiScalar"
 import * as HttpApiSwagger from "@effect/platform/HttpApiSwagger"
 import { SqlClient } from "@effect/sql"
 import { PgClient } from "@effect/sql-pg"
-import { Console, Context, Effect, flow, Layer, Logger, LogLevel, Redacted, Schema, String } from "effect"
+import { Console, Context, Effect, flow, Layer, Logger, LogLevel, Option, Redacted, String } from "effect"
 import * as http from "node:http"
 import { v7 as uuidv7 } from "uuid"
-import { CustomerId } from "./CustomerId.js"
-import { IdempotencyKey } from "./IdempotencyKey.js"
+import { Order, OrderHttpApiGroup, OrderResponse, OrderStartResponse, OrderStepResponse } from "./Api.js"
+import {
+  CatalogHttpApiGroup,
+  CatalogHttpApiLive,
+  priceLines,
+  ProductPriceRepository,
+  ProductPriceRepositoryLive
+} from "./Catalog.js"
+import { ApplicationLayer as CompensationApplicationLayer } from "./Compensation.js"
+import { Conflict, fromParseError, fromSqlError, orNotFound, type PersistenceError } from "./DomainError.js"
+import { InboxRepositoryLive, withInbox } from "./Inbox.js"
+import * as Money from "./Money.js"
 import { OrderId } from "./OrderId.js"
+import { OrderSaga } from "./OrderSaga.js"
 import {
   ApplicationLayer as OutboxApplicationLayer,
+  makeListenerLayer as makeOutboxListenerLayer,
   Outbox,
-  OutboxId,
+  OutboxHttpApiGroup,
+  OutboxHttpApiLive,
+  OutboxReplayRepositoryLive,
   OutboxRepository,
   OutboxRepositoryLive
 } from "./Outbox.js"
-import { ProductId } from "./ProductId.js"
+import * as SagaDefinition from "./SagaDefinition.js"
 import { SagaLog, SagaLogId, SagaLogRepository, SagaLogRepositoryLive } from "./SagaLog.js"
 
-const OrderSchema = Schema.Struct({
-  id: OrderId,
-  customerId: CustomerId,
-  productId: ProductId,
-  quantity: Schema.Number.annotations({ description: "Quantity" }),
-  sagaLogId: SagaLogId,
-  status: Schema.optionalWith(
-    Schema.Literal("PENDING", "CONFIRMED", "FAILED", "COMPENSATED"),
-    { default: () => "PENDING" }
-  ).annotations({ description: "Status" }),
-  totalPrice: Schema.Number.annotations({ description: "Total Price" })
-  // createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" }),
-  // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
-  // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
-}).pipe(
-  Schema.annotations({ description: "Order", identifier: "Order" })
-)
-type OrderSchema = typeof OrderSchema.Type
-
-class Order extends Schema.Class<Order>("Order")(OrderSchema) {
-  static decodeUnknown = Schema.decodeUnknown(Order)
-}
-
 class OrderRepository extends Context.Tag("@context/OrderRepository")<
   OrderRepository,
   {
     readonly findOne: (options: {
       orderId?: OrderId
-    }) => Effect.Effect<Order>
-    readonly save: (data: Order) => Effect.Effect<Order>
+    }) => Effect.Effect<Option.Option<Order>, PersistenceError>
+    readonly save: (data: Order) => Effect.Effect<Order, PersistenceError>
   }
 >() {}
 
@@ -72,32 +55,99 @@ BEGIN
   IF NOT EXISTS (
     SELECT 1 FROM pg_type WHERE typname = 'order_status'
   ) THEN
-    CREATE TYPE order_status AS ENUM ('PENDING', 'CONFIRMED', 'FAILED', 'COMPENSATED');
+    CREATE TYPE order_status AS ENUM ('PENDING', 'CONFIRMED', 'DELIVERED', 'FAILED', 'COMPENSATED');
   END IF;
 END
 $$;
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
+ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'DELIVERED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
 CREATE TABLE IF NOT EXISTS tbl_order (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
     customer_id UUID NOT NULL,
-    product_id UUID NOT NULL,
-    quantity INTEGER NOT NULL CHECK (quantity > 0),
+    lines JSONB NOT NULL,
     saga_log_id UUID NOT NULL,
+    shipping_address JSONB,
     status order_status NOT NULL DEFAULT 'PENDING',
-    total_price DECIMAL(10, 2) NOT NULL CHECK (total_price >= 0)
+    total_price JSONB NOT NULL CHECK ((total_price->>'amount')::bigint >= 0)
 );
     `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TABLE tbl_order ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Orders placed before multi-line orders carried a single product
+    yield* sql`
+ALTER TABLE tbl_order ADD COLUMN IF NOT EXISTS lines JSONB NOT NULL DEFAULT '[]';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'tbl_order' AND column_name = 'product_id'
+  ) THEN
+    -- The total in cents rarely divides by the quantity: one unit carries the remainder so the lines add up to it
+    UPDATE tbl_order SET lines = CASE
+      WHEN MOD(total_price * 100, quantity) = 0 THEN jsonb_build_array(jsonb_build_object(
+        'productId', product_id,
+        'quantity', quantity,
+        'unitPrice', total_price / quantity
+      ))
+      ELSE jsonb_build_array(
+        jsonb_build_object(
+          'productId', product_id,
+          'quantity', quantity - 1,
+          'unitPrice', FLOOR(total_price * 100 / quantity) / 100
+        ),
+        jsonb_build_object(
+          'productId', product_id,
+          'quantity', 1,
+          'unitPrice', (FLOOR(total_price * 100 / quantity) + MOD(total_price * 100, quantity)) / 100
+        )
+      )
+    END;
+    ALTER TABLE tbl_order DROP COLUMN product_id, DROP COLUMN quantity;
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Orders placed before Money had DECIMAL major units, in US dollars unless priced from the catalog
+    const minorUnits = sql.literal(Money.sqlMinorUnits("currency"))
+    yield* sql`
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tbl_order' AND column_name = 'total_price' AND data_type = 'numeric'
+  ) THEN
+    ALTER TABLE tbl_order ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD';
+    ALTER TABLE tbl_order DROP CONSTRAINT IF EXISTS tbl_order_total_price_check;
+    ALTER TABLE tbl_order ALTER COLUMN total_price TYPE JSONB
+      USING jsonb_build_object('amount', ROUND(total_price * ${minorUnits})::bigint, 'currency', currency);
+    UPDATE tbl_order SET lines = (
+      SELECT jsonb_agg(line || jsonb_build_object('unitPrice', jsonb_build_object(
+        'amount', ROUND((line->>'unitPrice')::numeric * ${minorUnits})::bigint,
+        'currency', total_price->>'currency'
+      )))
+      FROM jsonb_array_elements(lines) AS line
+    )
+    WHERE jsonb_array_length(lines) > 0;
+    ALTER TABLE tbl_order DROP COLUMN currency;
+    ALTER TABLE tbl_order ADD CHECK ((total_price->>'amount')::bigint >= 0);
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
 
     return {
       findOne: ({ orderId }) =>
         (orderId ?
           sql`SELECT * FROM tbl_order WHERE id = ${orderId} LIMIT 1` :
           sql`SELECT * FROM tbl_order LIMIT 1`).pipe(
-            Effect.catchTag("SqlError", Effect.die),
-            Effect.flatMap((rows) => Effect.succeed(rows[0])),
-            Effect.flatMap((row) => Order.decodeUnknown(row)),
-            Effect.catchTag("ParseError", Effect.die)
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), Order.decodeUnknown)),
+            Effect.catchTag("ParseError", fromParseError)
           ),
       save: (data) =>
         sql`
@@ -105,71 +155,26 @@ INSERT INTO tbl_order ${sql.insert({ ...data })}
 ON CONFLICT (id) 
 DO UPDATE SET
     customer_id = EXCLUDED.customer_id,
-    product_id = EXCLUDED.product_id,
-    quantity = EXCLUDED.quantity,
+    lines = EXCLUDED.lines,
     saga_log_id = EXCLUDED.saga_log_id,
+    shipping_address = EXCLUDED.shipping_address,
     status = EXCLUDED.status,
     total_price = EXCLUDED.total_price
 RETURNING *;
 `.pipe(
-          Effect.catchTag("SqlError", Effect.die),
+          Effect.catchTag("SqlError", fromSqlError),
           Effect.flatMap((rows) => Effect.succeed(rows[0])),
           Effect.flatMap((row) => Order.decodeUnknown(row)),
-          Effect.catchTag("ParseError", Effect.die)
+          Effect.catchTag("ParseError", fromParseError)
         )
     }
   })
 )
 
-const OrderStartRequest = Schema.Struct({
-  customerId: CustomerId,
-  productId: ProductId,
-  quantity: Schema.Number.annotations({ description: "Quantity" }),
-  totalPrice: Schema.Number.annotations({ description: "Total Price" })
-}).pipe(
-  Schema.annotations({ description: "Order Start Request", identifier: "OrderStartRequest" })
-)
-type OrderStartRequest = typeof OrderStartRequest.Type
-
-const OrderCompensateRequest = Schema.Struct({
-  orderId: OrderId
-}).pipe(
-  Schema.annotations({ description: "Order Compensate Request", identifier: "OrderCompensateRequest" })
-)
-type OrderCompensateRequest = typeof OrderCompensateRequest.Type
-
-class OrderHttpApiGroup extends HttpApiGroup.make("order")
-  .add(
-    HttpApiEndpoint.post("start", "/start")
-      .addSuccess(Schema.Struct({}))
-      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(OrderStartRequest)
-      .annotate(OpenApi.Description, "Order Start")
-      .annotate(OpenApi.Summary, "Order Start")
-  )
-  .add(
-    HttpApiEndpoint.post("compensate", "/compensate")
-      .addSuccess(Schema.Struct({}))
-      // .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(OrderCompensateRequest)
-      .annotate(OpenApi.Description, "Order Compensate")
-      .annotate(OpenApi.Summary, "Order Compensate")
-  )
-  .add(
-    HttpApiEndpoint.get("get", "/:orderId")
-      .addSuccess(Schema.Struct({}))
-      .setPath(Schema.Struct({ orderId: OrderId }))
-      .annotate(OpenApi.Description, "Order Get")
-      .annotate(OpenApi.Summary, "Order Get")
-  )
-  .annotate(OpenApi.Description, "Manage Order")
-  .annotate(OpenApi.Summary, "Manage Order")
-  .annotate(OpenApi.Title, "Order")
-  .prefix("/order")
-{}
-
 const Api = HttpApi.make("api")
   .add(OrderHttpApiGroup)
+  .add(CatalogHttpApiGroup)
+  .add(OutboxHttpApiGroup)
   .annotate(OpenApi.Description, "Manage Order API")
   .annotate(OpenApi.Summary, "Manage Order API")
   .annotate(OpenApi.Title, "Order API")
@@ -182,70 +187,48 @@ const OrderHttpApiLive = HttpApiBuilder.group(
     Effect.gen(function*() {
       const orderRepository = yield* OrderRepository
       const outboxRepository = yield* OutboxRepository
+      const productPriceRepository = yield* ProductPriceRepository
       const sagaLogRepository = yield* SagaLogRepository
+      const sql = yield* SqlClient.SqlClient
 
       return handlers.handle(
         "start",
         (
-          { headers: { "idempotency-key": idempotencyKey }, payload: { customerId, productId, quantity, totalPrice } }
+          {
+            headers: { "idempotency-key": idempotencyKey },
+            payload: { customerId, lines: requestLines, shippingAddress, totalPrice: expectedTotalPrice }
+          }
         ) =>
           Effect.gen(function*() {
             yield* Console.log(
-              `[Order Service] Order start ${{ idempotencyKey, customerId, productId, quantity, totalPrice }}`
+              `[Order Service] Order start ${{
+                idempotencyKey,
+                customerId,
+                requestLines,
+                shippingAddress,
+                expectedTotalPrice
+              }}`
             )
-            // Check if this saga was already started with this idempotency key })
-            const existingSaga = yield* sagaLogRepository.findOne({ idempotencyKey })
-            if (existingSaga) {
-              yield* Console.log(`[Order Service] Saga already processed with key: ${idempotencyKey}`)
-              return {
-                message: "Saga already initiated",
-                orderId: existingSaga.orderId,
-                sagaLogId: existingSaga.id,
-                success: true
-              }
-            }
+            const productPrices = yield* Effect.forEach(
+              requestLines,
+              ({ productId }) => productPriceRepository.findAll({ productId })
+            )
+            const { lines, totalPrice } = yield* priceLines(requestLines, productPrices, {
+              at: new Date(),
+              expectedTotalPrice
+            }).pipe(Effect.tapError(({ message }) => Console.log(`[Order Service] ${message}`)))
             const sagaLogId = SagaLogId.make(uuidv7())
             yield* Console.log(`\n[Order Service] Starting Saga: ${sagaLogId}`)
             // Execute all writes in a single transaction
-            // const { orderId, paymentEventId } = await withTransaction(async (session) => {
             // Initialize Saga Log with idempotency key
             let sagaLog = new SagaLog({
               id: sagaLogId,
               customerId,
               idempotencyKey,
-              productId,
-              quantity,
+              lines,
+              shippingAddress,
               status: "STARTED",
-              steps: [
-                {
-                  compensationStatus: "PENDING",
-                  error: null,
-                  status: "PENDING",
-                  name: "CREATE_ORDER",
-                  timestamp: null
-                },
-                {
-                  compensationStatus: "PENDING",
-                  error: null,
-                  status: "PENDING",
-                  name: "PROCESS_PAYMENT",
-                  timestamp: null
-                },
-                {
-                  compensationStatus: "PENDING",
-                  error: null,
-                  status: "PENDING",
-                  name: "UPDATE_INVENTORY",
-                  timestamp: null
-                },
-                {
-                  compensationStatus: "PENDING",
-                  error: null,
-                  status: "PENDING",
-                  name: "DELIVER_ORDER",
-                  timestamp: null
-                }
-              ],
+              steps: SagaDefinition.initialSteps(OrderSaga),
               totalPrice
             })
             yield* sagaLogRepository.save(sagaLog)
@@ -254,10 +237,10 @@ const OrderHttpApiLive = HttpApiBuilder.group(
             const order = new Order({
               id: OrderId.make(uuidv7()),
               customerId,
-              productId,
-              quantity,
+              lines,
               totalPrice,
               sagaLogId,
+              shippingAddress,
               status: "CONFIRMED"
             })
             yield* orderRepository.save(order)
@@ -275,22 +258,13 @@ const OrderHttpApiLive = HttpApiBuilder.group(
             yield* sagaLogRepository.save(sagaLog)
             // Write payment event to Outbox
             yield* Console.log(`[Order Service] Writing payment event to Outbox`)
-            const outboxEntry = new Outbox({
-              id: OutboxId.make(uuidv7()),
-              aggregateId: order.id,
-              eventType: "ORDER_CREATED",
-              payload: {
-                orderId: order.id,
-                customerId,
-                amount: totalPrice,
-                sagaLogId
-              },
-              targetService: "PAYMENT",
-              targetEndpoint: "/payments/process-payment",
-              isPublished: false
-            })
-            yield* outboxRepository.save(outboxEntry)
-            yield* Console.log(`[Order Service] Payment event written to Outbox: ${outboxEntry.id}`)
+            yield* Effect.transposeMapOption(SagaDefinition.next(OrderSaga, "CREATE_ORDER", sagaLog), (dispatch) =>
+              Effect.gen(function*() {
+                const outboxEntry = yield* outboxRepository.save(
+                  yield* Outbox.fromEvent(order.id, dispatch)
+                )
+                yield* Console.log(`[Order Service] Payment event written to Outbox: ${outboxEntry.id}`)
+              }))
             // Update saga log
             sagaLog = new SagaLog({
               ...sagaLog,
@@ -301,59 +275,110 @@ const OrderHttpApiLive = HttpApiBuilder.group(
               )
             })
             yield* sagaLogRepository.save(sagaLog)
-            // return { orderId, paymentEventId }
-            // })
             return {
               message: "Order saga initiated successfully - events queued for processing",
               orderId: order.id,
               sagaLogId,
               success: true
             }
-          })
+          }).pipe(
+            withInbox({ handler: "order.start", idempotencyKey, schema: OrderStartResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
       ).handle(
         "compensate",
-        ({ payload: { orderId } }) =>
+        ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, sagaLogId } }) =>
           Effect.gen(function*() {
-            yield* Console.log(`[Order Service] Order compensate ${{ orderId }}`)
+            yield* Console.log(`[Order Service] Order compensate ${{ idempotencyKey, orderId, sagaLogId }}`)
+            // Get saga log to track compensation progress
+            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId }).pipe(orNotFound("SagaLog", sagaLogId))
             // const order = await Order.findOneAndUpdate(
             //   { orderId },
             //   { status: "COMPENSATED" },
             //   { new: true }
             // )
-            let order = yield* orderRepository.findOne({ orderId })
-            if (!order) {
+            const existingOrder = yield* orderRepository.findOne({ orderId })
+            if (Option.isNone(existingOrder)) {
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "CREATE_ORDER"
+                    ? { ...step, compensationStatus: "FAILED", error: "Order not found" }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
               // throw new Error("Order not found")
               return {
                 message: "Order not found",
                 success: false
               }
             }
-            order = new Order({
-              ...order,
+            const order = new Order({
+              ...existingOrder.value,
               status: "COMPENSATED"
             })
             yield* orderRepository.save(order)
             yield* Console.log(`[Order Service] Order compensated: ${orderId}`)
+            // Update saga log
+            sagaLog = new SagaLog({
+              ...sagaLog,
+              steps: sagaLog.steps.map((step) =>
+                step.name === "CREATE_ORDER"
+                  ? { ...step, compensationStatus: "COMPLETED", status: "COMPENSATED", timestamp: new Date() }
+                  : step
+              )
+            })
+            yield* sagaLogRepository.save(sagaLog)
 
             return {
               data: order,
               message: "Order compensated successfully",
               success: true
             }
-          })
+          }).pipe(
+            withInbox({ handler: "order.compensate", idempotencyKey, schema: OrderStepResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
+      ).handle(
+        "deliver",
+        ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, sagaLogId } }) =>
+          Effect.gen(function*() {
+            yield* Console.log(`[Order Service] Order deliver ${{ idempotencyKey, orderId, sagaLogId }}`)
+            let order = yield* orderRepository.findOne({ orderId }).pipe(orNotFound("Order", orderId))
+            if (order.status !== "CONFIRMED") {
+              const error = `Order is ${order.status}, only CONFIRMED orders can be delivered`
+              yield* Console.error(`[Order Service] ${error}: ${orderId}`)
+              return yield* new Conflict({ message: error })
+            }
+            // The carrier reported the shipment delivered
+            order = yield* orderRepository.save(
+              new Order({
+                ...order,
+                status: "DELIVERED"
+              })
+            )
+            yield* Console.log(`[Order Service] Order delivered: ${orderId}`)
+
+            return {
+              data: order,
+              message: "Order delivered successfully",
+              success: true
+            }
+          }).pipe(
+            withInbox({ handler: "order.deliver", idempotencyKey, schema: OrderResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
       ).handle("get", ({ path: { orderId } }) =>
         Effect.gen(function*() {
           yield* Console.log(
             `[Order Service] Order get ${{ orderId }}`
           )
-          const order = yield* orderRepository.findOne({ orderId })
-          if (!order) {
-            // throw new Error("Order not found")
-            return {
-              message: "Order not found",
-              success: false
-            }
-          }
+          const order = yield* orderRepository.findOne({ orderId }).pipe(orNotFound("Order", orderId))
 
           return {
             data: order,
@@ -372,13 +397,18 @@ const PgLive = PgClient.layer({
   username: "postgres"
 })
 
-const ApplicationLayer = OrderHttpApiLive.pipe(
+const ApplicationLayer = Layer.mergeAll(OrderHttpApiLive, CatalogHttpApiLive, OutboxHttpApiLive).pipe(
   Layer.provide(
     Layer.provideMerge(
       Layer.mergeAll(
+        CompensationApplicationLayer,
+        InboxRepositoryLive,
         OrderRepositoryLive,
         OutboxApplicationLayer,
+        makeOutboxListenerLayer("ORDER"),
+        OutboxReplayRepositoryLive,
         OutboxRepositoryLive,
+        ProductPriceRepositoryLive,
         SagaLogRepositoryLive
       ),
       PgLive
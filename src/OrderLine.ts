@@ -0,0 +1,15 @@
+import { Schema } from "effect"
+import * as Money from "./Money.js"
+import { ProductId } from "./ProductId.js"
+
+export const OrderLine = Schema.Struct({
+  productId: ProductId,
+  quantity: Schema.Int.pipe(Schema.positive()).annotations({ description: "Quantity" }),
+  unitPrice: Money.Money.annotations({ description: "Unit Price" })
+}).pipe(
+  Schema.annotations({ description: "Order Line", identifier: "OrderLine" })
+)
+export type OrderLine = typeof OrderLine.Type
+
+export const OrderLines = Schema.NonEmptyArray(OrderLine).annotations({ description: "Order Lines" })
+export type OrderLines = typeof OrderLines.Type
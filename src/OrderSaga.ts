@@ -0,0 +1,96 @@
+import type { Address } from "./Address.js"
+import type { CustomerId } from "./CustomerId.js"
+import type * as Money from "./Money.js"
+import type { OrderLine } from "./OrderLine.js"
+import * as SagaDefinition from "./SagaDefinition.js"
+
+// Saga data the step payloads are built from, satisfied by `SagaLog`
+interface OrderSagaData {
+  readonly id: string
+  readonly customerId: CustomerId
+  readonly orderId: string | null
+  readonly lines: ReadonlyArray<OrderLine>
+  readonly shippingAddress: Address | null
+  readonly totalPrice: Money.Money
+}
+
+export const OrderSaga = SagaDefinition.make<OrderSagaData>()({
+  name: "OrderSaga",
+  steps: [
+    {
+      name: "CREATE_ORDER",
+      action: {
+        payload: (sagaLog) => ({
+          customerId: sagaLog.customerId,
+          lines: sagaLog.lines,
+          shippingAddress: sagaLog.shippingAddress,
+          totalPrice: sagaLog.totalPrice
+        }),
+        targetEndpoint: "order.start"
+      },
+      compensation: {
+        eventType: "ORDER_COMPENSATED",
+        payload: (sagaLog) => ({ orderId: sagaLog.orderId, sagaLogId: sagaLog.id }),
+        targetEndpoint: "order.compensate"
+      },
+      eventType: "ORDER_CREATED",
+      service: "ORDER"
+    },
+    {
+      name: "PROCESS_PAYMENT",
+      action: {
+        payload: (sagaLog) => ({
+          orderId: sagaLog.orderId,
+          customerId: sagaLog.customerId,
+          amount: sagaLog.totalPrice,
+          sagaLogId: sagaLog.id
+        }),
+        targetEndpoint: "payment.process"
+      },
+      compensation: {
+        eventType: "PAYMENT_COMPENSATED",
+        payload: (sagaLog) => ({ orderId: sagaLog.orderId, sagaLogId: sagaLog.id }),
+        targetEndpoint: "payment.refund"
+      },
+      eventType: "PAYMENT_AUTHORIZED",
+      service: "PAYMENT"
+    },
+    {
+      name: "UPDATE_INVENTORY",
+      action: {
+        payload: (sagaLog) => ({
+          orderId: sagaLog.orderId,
+          sagaLogId: sagaLog.id,
+          lines: sagaLog.lines.map(({ productId, quantity }) => ({ productId, quantity }))
+        }),
+        targetEndpoint: "inventory.update"
+      },
+      compensation: {
+        eventType: "INVENTORY_COMPENSATED",
+        payload: (sagaLog) => ({ orderId: sagaLog.orderId, sagaLogId: sagaLog.id }),
+        targetEndpoint: "inventory.compensate"
+      },
+      eventType: "INVENTORY_UPDATED",
+      service: "INVENTORY"
+    },
+    {
+      name: "DELIVER_ORDER",
+      action: {
+        payload: (sagaLog) => ({
+          customerId: sagaLog.customerId,
+          orderId: sagaLog.orderId,
+          sagaLogId: sagaLog.id,
+          shippingAddress: sagaLog.shippingAddress
+        }),
+        targetEndpoint: "shipping.deliver"
+      },
+      compensation: {
+        eventType: "SHIPPING_COMPENSATED",
+        payload: (sagaLog) => ({ orderId: sagaLog.orderId, sagaLogId: sagaLog.id }),
+        targetEndpoint: "shipping.cancel"
+      },
+      eventType: "ORDER_SHIPPED",
+      service: "SHIPPING"
+    }
+  ]
+})
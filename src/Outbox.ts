@@ -1,8 +1,56 @@
-import { FetchHttpClient, HttpClient, HttpClientRequest } from "@effect/platform"
+import {
+  FetchHttpClient,
+  HttpApi,
+  HttpApiBuilder,
+  HttpApiEndpoint,
+  HttpApiGroup,
+  type HttpClient,
+  OpenApi
+} from "@effect/platform"
 import { SqlClient } from "@effect/sql"
 import { PgClient } from "@effect/sql-pg"
-import type { Fiber } from "effect"
-import { Config, Console, Context, Duration, Effect, Layer, Redacted, Schedule, Schema, String } from "effect"
+import type { ConfigError, Fiber } from "effect"
+import {
+  Clock,
+  Config,
+  Console,
+  Context,
+  Duration,
+  Effect,
+  Layer,
+  Option,
+  Predicate,
+  Random,
+  Redacted,
+  Schedule,
+  Schema,
+  Stream,
+  String
+} from "effect"
+import { v7 as uuidv7 } from "uuid"
+import {
+  InventoryCommitRequest,
+  InventoryCompensateRequest,
+  InventoryUpdateRequest,
+  OrderCompensateRequest,
+  OrderDeliverRequest,
+  PaymentCaptureRequest,
+  PaymentProcessRequest,
+  PaymentRefundRequest,
+  ShippingCancelRequest,
+  ShippingDeliverRequest,
+  TargetEndpoint
+} from "./Api.js"
+import { Conflict, fromParseError, fromSqlError, NotFound, orNotFound, PersistenceError } from "./DomainError.js"
+import * as Money from "./Money.js"
+import {
+  HttpOutboxTransportLive,
+  OutboxRejectedError,
+  OutboxTransport,
+  PgNotifyOutboxListenerLive,
+  PgNotifyOutboxTransportLive
+} from "./OutboxTransport.js"
+import * as Upcaster from "./Upcaster.js"
 
 export const OutboxId = Schema.UUID.pipe(
   Schema.brand("OutboxId"),
@@ -10,24 +58,128 @@ export const OutboxId = Schema.UUID.pipe(
 )
 export type OutboxId = typeof OutboxId.Type
 
+const OutboxEventType = Schema.Literal(
+  "ORDER_CREATED",
+  "PAYMENT_PROCESSED",
+  "PAYMENT_AUTHORIZED",
+  "PAYMENT_FAILED",
+  "INVENTORY_UPDATED",
+  "INVENTORY_FAILED",
+  "ORDER_SHIPPED",
+  "ORDER_DELIVERED",
+  "ORDER_COMPENSATED",
+  "PAYMENT_COMPENSATED",
+  "INVENTORY_COMPENSATED",
+  "SHIPPING_COMPENSATED"
+).annotations({ description: "Event Type" })
+
+const OutboxTargetService = Schema.Literal("PAYMENT", "INVENTORY", "SHIPPING", "ORDER")
+  .annotations({ description: "Target Service" })
+
+const event = <
+  const EventType extends typeof OutboxEventType.Type,
+  const TargetService extends typeof OutboxTargetService.Type,
+  const Target extends TargetEndpoint,
+  Payload extends Schema.Schema.AnyNoContext
+>(eventType: EventType, targetService: TargetService, targetEndpoint: Target, payload: Payload) =>
+  Schema.Struct({
+    eventType: Schema.Literal(eventType),
+    payload,
+    targetEndpoint: Schema.Literal(targetEndpoint),
+    targetService: Schema.Literal(targetService)
+  })
+
+// Events by type, the payload of an event is the request of the endpoint it is dispatched to.
+// ORDER_SHIPPED is the only event dispatched to several endpoints, one member each
+export const OutboxEvent = Schema.Union(
+  event("ORDER_CREATED", "PAYMENT", "payment.process", PaymentProcessRequest),
+  // Written before payments were authorized through the gateway
+  event("PAYMENT_PROCESSED", "INVENTORY", "inventory.update", InventoryUpdateRequest),
+  event("PAYMENT_AUTHORIZED", "INVENTORY", "inventory.update", InventoryUpdateRequest),
+  event("INVENTORY_UPDATED", "SHIPPING", "shipping.deliver", ShippingDeliverRequest),
+  event("ORDER_SHIPPED", "INVENTORY", "inventory.commit", InventoryCommitRequest),
+  event("ORDER_SHIPPED", "PAYMENT", "payment.capture", PaymentCaptureRequest),
+  event("ORDER_DELIVERED", "ORDER", "order.deliver", OrderDeliverRequest),
+  event("ORDER_COMPENSATED", "ORDER", "order.compensate", OrderCompensateRequest),
+  event("PAYMENT_COMPENSATED", "PAYMENT", "payment.refund", PaymentRefundRequest),
+  event("INVENTORY_COMPENSATED", "INVENTORY", "inventory.compensate", InventoryCompensateRequest),
+  event("SHIPPING_COMPENSATED", "SHIPPING", "shipping.cancel", ShippingCancelRequest)
+).annotations({ description: "Outbox Event", identifier: "OutboxEvent" })
+export type OutboxEvent = typeof OutboxEvent.Type
+
+// Routes events were dispatched to before target endpoints were named after the contract,
+// some of them routes that never existed
+const legacyRoutes: Partial<Record<string, TargetEndpoint>> = {
+  "/payments/process-payment": "payment.process",
+  "/inventories/update-inventory": "inventory.update",
+  "/shipments/deliver-order": "shipping.deliver"
+}
+
+const upcastPayload = (document: Upcaster.Document, upcast: (payload: Upcaster.Document) => Upcaster.Document) =>
+  Predicate.isRecord(document.payload) ? { ...document, payload: upcast(document.payload) } : document
+
+// Entries stored before versioning are version 1 whatever their format,
+// so each upcaster only rewrites what is still in the format it migrates from
+export const OutboxUpcasters = Upcaster.make({
+  name: "Outbox",
+  upcasters: [
+    // Orders of a single product, inventory events carried it instead of lines
+    {
+      fromVersion: 1,
+      upcast: (document) =>
+        upcastPayload(document, (payload) => {
+          if (payload.productId === undefined || payload.lines !== undefined) {
+            return payload
+          }
+          const { productId, quantity, ...rest } = payload
+          return { ...rest, lines: [{ productId, quantity }] }
+        })
+    },
+    // Amounts in US dollars before Money
+    {
+      fromVersion: 2,
+      upcast: (document) =>
+        upcastPayload(document, (payload) =>
+          typeof payload.amount === "number" ?
+            { ...payload, amount: Money.fromMajor(payload.amount, Money.Currency.make("USD")) } :
+            payload)
+    },
+    // Target endpoints were routes
+    {
+      fromVersion: 3,
+      upcast: (document) =>
+        typeof document.targetEndpoint === "string" && document.targetEndpoint.startsWith("/") ?
+          {
+            ...document,
+            targetEndpoint: legacyRoutes[document.targetEndpoint] ??
+              document.targetEndpoint.replace(/^\/([a-z]+)\/([a-z]+)$/, "$1.$2")
+          } :
+          document
+    }
+  ],
+  versionKey: "schemaVersion"
+})
+
+// Entries are stored with an unknown payload, so that entries written before payloads were typed can
+// still be read; they are validated against `OutboxEvent` when written and again when dispatched
 const OutboxSchema = Schema.Struct({
   id: OutboxId,
   aggregateId: Schema.UUID, // Use UUID directly to avoid circular dependency
-  eventType: Schema.Literal(
-    "ORDER_CREATED",
-    "PAYMENT_PROCESSED",
-    "PAYMENT_FAILED",
-    "INVENTORY_UPDATED",
-    "INVENTORY_FAILED",
-    "ORDER_SHIPPED",
-    "ORDER_DELIVERED",
-    "ORDER_COMPENSATED"
-  ).annotations({ description: "Event Type" }),
+  claimedBy: Schema.optionalWith(Schema.NullOr(Schema.String).annotations({ description: "Claimed By" }), {
+    default: () => null
+  }),
+  claimedUntil: Schema.optionalWith(Schema.NullOr(Schema.Date).annotations({ description: "Claimed Until" }), {
+    default: () => null
+  }),
+  eventType: OutboxEventType,
   isPublished: Schema.optionalWith(Schema.Boolean, { default: () => false }).annotations({ description: "Published" }),
   lastError: Schema.optionalWith(Schema.NullOr(Schema.String).annotations({ description: "Last Error" }), {
     default: () => null
   }),
   maxRetries: Schema.optionalWith(Schema.Number, { default: () => 3 }).annotations({ description: "Max Retries" }),
+  nextAttemptAt: Schema.optionalWith(Schema.NullOr(Schema.Date).annotations({ description: "Next Attempt At" }), {
+    default: () => null
+  }),
   payload: Schema.Unknown,
   publishAttempts: Schema.optionalWith(Schema.Number.annotations({ description: "Publish Attempts" }), {
     default: () => 0
@@ -35,9 +187,13 @@ const OutboxSchema = Schema.Struct({
   publishedAt: Schema.optionalWith(Schema.NullOr(Schema.Date).annotations({ description: "Published At" }), {
     default: () => null
   }),
-  targetEndpoint: Schema.String.annotations({ description: "Target Endpoint" }),
-  targetService: Schema.Literal("PAYMENT", "INVENTORY", "SHIPPING", "ORDER")
-    .annotations({ description: "Target Service" }),
+  schemaVersion: Schema.optionalWith(Upcaster.SchemaVersion, { default: () => OutboxUpcasters.currentVersion }),
+  status: Schema.optionalWith(
+    Schema.Literal("PENDING", "RETRYING", "PUBLISHED", "REJECTED", "FAILED", "DEAD_LETTERED", "DISCARDED"),
+    { default: () => "PENDING" }
+  ).annotations({ description: "Status" }),
+  targetEndpoint: TargetEndpoint,
+  targetService: OutboxTargetService,
   createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
   // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
   // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
@@ -47,19 +203,64 @@ const OutboxSchema = Schema.Struct({
 type OutboxSchema = typeof OutboxSchema.Type
 
 export class Outbox extends Schema.Class<Outbox>("Outbox")(OutboxSchema) {
-  static decodeUnknown = Schema.decodeUnknown(Outbox)
+  // Rows of earlier schema versions are upcast before they are decoded
+  static decodeUnknown = (row: unknown) =>
+    Upcaster.upcast(OutboxUpcasters)(row).pipe(Effect.flatMap(Schema.decodeUnknown(Outbox)))
+  // Pending entry announcing the event, a payload that does not match its event type is a `Conflict`
+  static fromEvent = (
+    aggregateId: string,
+    event: Pick<Outbox, "eventType" | "payload" | "targetEndpoint" | "targetService">
+  ) =>
+    Schema.decodeUnknown(OutboxEvent)(event).pipe(
+      Effect.map((event) =>
+        new Outbox({
+          id: OutboxId.make(uuidv7()),
+          aggregateId,
+          ...event,
+          isPublished: false
+        })
+      ),
+      Effect.catchTag(
+        "ParseError",
+        (error) => new Conflict({ message: `Payload does not match ${event.eventType}: ${error.message}` })
+      )
+    )
 }
 
 export class OutboxRepository extends Context.Tag("@context/OutboxRepository")<
   OutboxRepository,
   {
-    readonly findUnpublished: (options: {
+    readonly claimUnpublished: (options: {
       batchSize: number
-    }) => Effect.Effect<Array<Outbox>>
-    readonly save: (data: Outbox) => Effect.Effect<Outbox>
+      claimedBy: string
+      leaseMs: number
+    }) => Effect.Effect<Array<Outbox>, PersistenceError>
+    readonly findDeadLettered: (options: {
+      limit: number
+    }) => Effect.Effect<Array<Outbox>, PersistenceError>
+    readonly findFailed: (options: {
+      sagaLogId: string
+    }) => Effect.Effect<Array<Outbox>, PersistenceError>
+    readonly findOne: (options: {
+      outboxId?: OutboxId
+    }) => Effect.Effect<Option.Option<Outbox>, PersistenceError>
+    // Events of the saga the Outbox gave up delivering, dead-lettered or rejected, that no service will answer
+    readonly findUndelivered: (options: {
+      sagaLogId: string
+    }) => Effect.Effect<Array<Outbox>, PersistenceError>
+    // Records the outcome of publishing a claimed event and releases its lease, none when the lease has passed
+    // to another publisher meanwhile. `retryDelay` schedules the next attempt on the database clock
+    readonly release: (data: Outbox, options: {
+      claimedBy: string
+      retryDelay?: Duration.Duration | undefined
+    }) => Effect.Effect<Option.Option<Outbox>, PersistenceError>
+    readonly save: (data: Outbox) => Effect.Effect<Outbox, PersistenceError>
   }
 >() {}
 
+// Channel `tbl_outbox` NOTIFYs with the id of every event that becomes pending
+export const outboxPendingChannel = "outbox_pending"
+
 export const OutboxRepositoryLive = Layer.effect(
   OutboxRepository,
   Effect.gen(function*() {
@@ -71,12 +272,24 @@ BEGIN
   IF NOT EXISTS (
     SELECT 1 FROM pg_type WHERE typname = 'outbox_event_type'
   ) THEN
-    CREATE TYPE outbox_event_type AS ENUM ('ORDER_CREATED', 'PAYMENT_PROCESSED', 'PAYMENT_FAILED', 'INVENTORY_UPDATED', 'INVENTORY_FAILED', 'ORDER_SHIPPED', 'ORDER_DELIVERED', 'ORDER_COMPENSATED');
+    CREATE TYPE outbox_event_type AS ENUM ('ORDER_CREATED', 'PAYMENT_PROCESSED', 'PAYMENT_FAILED', 'INVENTORY_UPDATED', 'INVENTORY_FAILED', 'ORDER_SHIPPED', 'ORDER_DELIVERED', 'ORDER_COMPENSATED', 'PAYMENT_COMPENSATED', 'INVENTORY_COMPENSATED', 'SHIPPING_COMPENSATED');
   END IF;
 END
 $$;
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
+ALTER TYPE outbox_event_type ADD VALUE IF NOT EXISTS 'PAYMENT_COMPENSATED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TYPE outbox_event_type ADD VALUE IF NOT EXISTS 'INVENTORY_COMPENSATED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TYPE outbox_event_type ADD VALUE IF NOT EXISTS 'SHIPPING_COMPENSATED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TYPE outbox_event_type ADD VALUE IF NOT EXISTS 'PAYMENT_AUTHORIZED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
 DO $$
 BEGIN
   IF NOT EXISTS (
@@ -88,31 +301,174 @@ END
 $$;
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_type WHERE typname = 'outbox_status'
+  ) THEN
+    CREATE TYPE outbox_status AS ENUM ('PENDING', 'RETRYING', 'PUBLISHED', 'REJECTED', 'FAILED', 'DEAD_LETTERED', 'DISCARDED');
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* Effect.forEach(["RETRYING", "REJECTED", "FAILED"], (status) =>
+      sql`
+ALTER TYPE outbox_status ADD VALUE IF NOT EXISTS ${sql.literal(`'${status}'`)};
+    `.pipe(Effect.catchTag("SqlError", Effect.die)))
+    yield* sql`
 CREATE TABLE IF NOT EXISTS tbl_outbox (
     id UUID PRIMARY KEY,
     aggregate_id UUID NOT NULL,
+    claimed_by VARCHAR(255),
+    claimed_until TIMESTAMP WITH TIME ZONE,
     event_type outbox_event_type NOT NULL,
     is_published BOOLEAN NOT NULL DEFAULT FALSE,
     last_error TEXT,
     max_retries INTEGER NOT NULL DEFAULT 3,
+    next_attempt_at TIMESTAMP WITH TIME ZONE,
     payload JSONB NOT NULL,
     publish_attempts INTEGER NOT NULL DEFAULT 0,
     published_at TIMESTAMP WITH TIME ZONE,
+    schema_version INTEGER NOT NULL DEFAULT 1,
+    status outbox_status NOT NULL DEFAULT 'PENDING',
     target_endpoint VARCHAR(255) NOT NULL,
     target_service outbox_target_service NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
+ALTER TABLE tbl_outbox
+    ADD COLUMN IF NOT EXISTS claimed_by VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS status outbox_status NOT NULL DEFAULT 'PENDING',
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
 CREATE INDEX IF NOT EXISTS idx_outbox_is_published ON tbl_outbox(is_published) WHERE is_published = FALSE;
     `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE INDEX IF NOT EXISTS idx_outbox_next_attempt_at ON tbl_outbox(next_attempt_at) WHERE status IN ('PENDING', 'RETRYING');
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE INDEX IF NOT EXISTS idx_outbox_dead_lettered ON tbl_outbox(created_at) WHERE status IN ('DEAD_LETTERED', 'REJECTED');
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Wake publishers as soon as an event becomes pending, on insert or replay; delivered on commit
+    yield* sql`
+CREATE OR REPLACE FUNCTION notify_outbox_pending() RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_notify(${sql.literal(`'${outboxPendingChannel}'`)}, NEW.id::text);
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE OR REPLACE TRIGGER trg_outbox_pending
+AFTER INSERT OR UPDATE OF status ON tbl_outbox
+FOR EACH ROW WHEN (NEW.status = 'PENDING')
+EXECUTE FUNCTION notify_outbox_pending();
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
 
     return {
-      findUnpublished: ({ batchSize }) =>
-        sql`SELECT * FROM tbl_outbox WHERE is_published = FALSE LIMIT ${batchSize}`.pipe(
-          Effect.catchTag("SqlError", Effect.die),
-          Effect.flatMap((outboxs) => Effect.all(outboxs.map((outbox) => Outbox.decodeUnknown(outbox)))),
-          Effect.catchTag("ParseError", Effect.die)
+      // Only due rows are claimed; rows claimed by another publisher are skipped until their lease expires
+      // Rows of a schema version written by a newer deployment are left to it, e.g. during a rolling deploy.
+      // A claimed row that cannot be read is dead-lettered on its own, the rest of the batch is published
+      claimUnpublished: ({ batchSize, claimedBy, leaseMs }) =>
+        sql`
+UPDATE tbl_outbox
+SET claimed_by = ${claimedBy},
+    claimed_until = CURRENT_TIMESTAMP + ${leaseMs} * INTERVAL '1 millisecond'
+WHERE id IN (
+    SELECT id FROM tbl_outbox
+    WHERE is_published = FALSE
+      AND status IN ('PENDING', 'RETRYING')
+      AND schema_version <= ${OutboxUpcasters.currentVersion}
+      AND (next_attempt_at IS NULL OR next_attempt_at <= CURRENT_TIMESTAMP)
+      AND (claimed_until IS NULL OR claimed_until < CURRENT_TIMESTAMP)
+    ORDER BY COALESCE(next_attempt_at, created_at)
+    LIMIT ${batchSize}
+    FOR UPDATE SKIP LOCKED
+)
+RETURNING *;
+`.pipe(
+          Effect.flatMap((rows) =>
+            Effect.partition(rows, (row) =>
+              Outbox.decodeUnknown(row).pipe(
+                Effect.mapError((error) => ({ id: `${row.id}`, message: `Unreadable event: ${error.message}` }))
+              ))
+          ),
+          Effect.tap(([unreadable]) =>
+            Effect.forEach(unreadable, ({ id, message }) =>
+              sql`
+UPDATE tbl_outbox
+SET claimed_by = NULL,
+    claimed_until = NULL,
+    last_error = ${message},
+    status = 'DEAD_LETTERED'
+WHERE id = ${id} AND claimed_by = ${claimedBy};
+`.pipe(Effect.zipRight(Console.error(`Event ${id} dead-lettered, ${message}`))))
+          ),
+          Effect.map(([, outboxs]) => outboxs),
+          Effect.catchTag("SqlError", fromSqlError)
+        ),
+      // Rows dead-lettered because they cannot be read are left out, they need fixing in the database
+      findDeadLettered: ({ limit }) =>
+        sql`SELECT * FROM tbl_outbox WHERE status IN ('DEAD_LETTERED', 'REJECTED') ORDER BY created_at LIMIT ${limit}`
+          .pipe(
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((rows) =>
+              Effect.partition(rows, (row) =>
+                Outbox.decodeUnknown(row).pipe(
+                  Effect.tapError((error) =>
+                    Console.error(`Dead-lettered event ${row.id} unreadable: ${error.message}`)
+                  )
+                ))
+            ),
+            Effect.map(([, outboxs]) => outboxs)
+          ),
+      findFailed: ({ sagaLogId }) =>
+        sql`SELECT * FROM tbl_outbox WHERE status = 'FAILED' AND payload->>'sagaLogId' = ${sagaLogId} ORDER BY created_at`
+          .pipe(
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((outboxs) => Effect.all(outboxs.map((outbox) => Outbox.decodeUnknown(outbox)))),
+            Effect.catchTag("ParseError", fromParseError)
+          ),
+      findUndelivered: ({ sagaLogId }) =>
+        sql`SELECT * FROM tbl_outbox WHERE status IN ('DEAD_LETTERED', 'REJECTED') AND payload->>'sagaLogId' = ${sagaLogId} ORDER BY created_at`
+          .pipe(
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((outboxs) => Effect.all(outboxs.map((outbox) => Outbox.decodeUnknown(outbox)))),
+            Effect.catchTag("ParseError", fromParseError)
+          ),
+      findOne: ({ outboxId }) =>
+        (outboxId ?
+          sql`SELECT * FROM tbl_outbox WHERE id = ${outboxId} LIMIT 1` :
+          sql`SELECT * FROM tbl_outbox LIMIT 1`).pipe(
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), Outbox.decodeUnknown)),
+            Effect.catchTag("ParseError", fromParseError)
+          ),
+      release: (data, { claimedBy, retryDelay }) =>
+        sql`
+UPDATE tbl_outbox
+SET claimed_by = NULL,
+    claimed_until = NULL,
+    is_published = ${data.isPublished},
+    last_error = ${data.lastError},
+    next_attempt_at = ${
+          retryDelay ?
+            sql`CURRENT_TIMESTAMP + ${Duration.toMillis(retryDelay)} * INTERVAL '1 millisecond'` :
+            data.nextAttemptAt
+        },
+    publish_attempts = ${data.publishAttempts},
+    published_at = ${data.publishedAt},
+    status = ${data.status}
+WHERE id = ${data.id} AND claimed_by = ${claimedBy}
+RETURNING *;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), Outbox.decodeUnknown)),
+          Effect.catchTag("ParseError", fromParseError)
         ),
       save: (data) =>
         sql`
@@ -120,169 +476,467 @@ INSERT INTO tbl_outbox ${sql.insert({ ...data })}
 ON CONFLICT (id) 
 DO UPDATE SET
     aggregate_id = EXCLUDED.aggregate_id,
+    claimed_by = EXCLUDED.claimed_by,
+    claimed_until = EXCLUDED.claimed_until,
     event_type = EXCLUDED.event_type,
     is_published = EXCLUDED.is_published,
     last_error = EXCLUDED.last_error,
     max_retries = EXCLUDED.max_retries,
+    next_attempt_at = EXCLUDED.next_attempt_at,
     payload = EXCLUDED.payload,
     publish_attempts = EXCLUDED.publish_attempts,
     published_at = EXCLUDED.published_at,
+    schema_version = EXCLUDED.schema_version,
+    status = EXCLUDED.status,
     target_endpoint = EXCLUDED.target_endpoint,
     target_service = EXCLUDED.target_service,
     created_at = EXCLUDED.created_at
 RETURNING *;
 `.pipe(
-          Effect.catchTag("SqlError", Effect.die),
+          Effect.catchTag("SqlError", fromSqlError),
           Effect.flatMap((rows) => Effect.succeed(rows[0])),
           Effect.flatMap((row) => Outbox.decodeUnknown(row)),
-          Effect.catchTag("ParseError", Effect.die)
+          Effect.catchTag("ParseError", fromParseError)
         )
     }
   })
 )
 
-class ConfigService extends Context.Tag("@context/ConfigService")<
+export const OutboxReplayId = Schema.UUID.pipe(
+  Schema.brand("OutboxReplayId"),
+  Schema.annotations({ description: "Outbox Replay Identification" })
+)
+export type OutboxReplayId = typeof OutboxReplayId.Type
+
+// Operator action taken on a dead-lettered Outbox event
+const OutboxReplaySchema = Schema.Struct({
+  id: OutboxReplayId,
+  action: Schema.Literal("REPLAY", "EDIT", "DISCARD").annotations({ description: "Action" }),
+  outboxId: OutboxId,
+  payload: Schema.Unknown,
+  previousPayload: Schema.Unknown,
+  reason: Schema.optionalWith(Schema.NullOr(Schema.String).annotations({ description: "Reason" }), {
+    default: () => null
+  }),
+  createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
+}).pipe(
+  Schema.annotations({ description: "OutboxReplay", identifier: "OutboxReplay" })
+)
+type OutboxReplaySchema = typeof OutboxReplaySchema.Type
+
+export class OutboxReplay extends Schema.Class<OutboxReplay>("OutboxReplay")(OutboxReplaySchema) {
+  static decodeUnknown = Schema.decodeUnknown(OutboxReplay)
+}
+
+export class OutboxReplayRepository extends Context.Tag("@context/OutboxReplayRepository")<
+  OutboxReplayRepository,
+  {
+    readonly save: (data: OutboxReplay) => Effect.Effect<OutboxReplay, PersistenceError>
+  }
+>() {}
+
+export const OutboxReplayRepositoryLive = Layer.effect(
+  OutboxReplayRepository,
+  Effect.gen(function*() {
+    const sql = yield* SqlClient.SqlClient
+
+    yield* sql`
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_type WHERE typname = 'outbox_replay_action'
+  ) THEN
+    CREATE TYPE outbox_replay_action AS ENUM ('REPLAY', 'EDIT', 'DISCARD');
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE TABLE IF NOT EXISTS tbl_outbox_replay (
+    id UUID PRIMARY KEY,
+    action outbox_replay_action NOT NULL,
+    outbox_id UUID NOT NULL,
+    payload JSONB,
+    previous_payload JSONB,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE INDEX IF NOT EXISTS idx_outbox_replay_outbox_id ON tbl_outbox_replay(outbox_id);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+
+    return {
+      save: (data) =>
+        sql`
+INSERT INTO tbl_outbox_replay ${sql.insert({ ...data })}
+RETURNING *;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.succeed(rows[0])),
+          Effect.flatMap((row) => OutboxReplay.decodeUnknown(row)),
+          Effect.catchTag("ParseError", fromParseError)
+        )
+    }
+  })
+)
+
+const OutboxListDeadLetterRequest = Schema.Struct({
+  limit: Schema.optionalWith(Schema.NumberFromString.pipe(Schema.int(), Schema.positive()), { default: () => 100 })
+    .annotations({ description: "Limit" })
+}).pipe(
+  Schema.annotations({ description: "Outbox List Dead Letter Request", identifier: "OutboxListDeadLetterRequest" })
+)
+type OutboxListDeadLetterRequest = typeof OutboxListDeadLetterRequest.Type
+
+const OutboxReplayRequest = Schema.Struct({
+  reason: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null })
+    .annotations({ description: "Reason" })
+}).pipe(
+  Schema.annotations({ description: "Outbox Replay Request", identifier: "OutboxReplayRequest" })
+)
+type OutboxReplayRequest = typeof OutboxReplayRequest.Type
+
+const OutboxEditRequest = Schema.Struct({
+  payload: Schema.Unknown,
+  reason: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null })
+    .annotations({ description: "Reason" })
+}).pipe(
+  Schema.annotations({ description: "Outbox Edit Request", identifier: "OutboxEditRequest" })
+)
+type OutboxEditRequest = typeof OutboxEditRequest.Type
+
+const OutboxResponse = Schema.Struct({
+  data: Schema.optional(Outbox),
+  message: Schema.String,
+  success: Schema.Boolean
+}).pipe(
+  Schema.annotations({ description: "Outbox Response", identifier: "OutboxResponse" })
+)
+
+export class OutboxHttpApiGroup extends HttpApiGroup.make("outbox")
+  .addError(PersistenceError)
+  .add(
+    HttpApiEndpoint.get("listDeadLetter", "/dead-letter")
+      .addSuccess(Schema.Struct({
+        data: Schema.Array(Outbox),
+        message: Schema.String,
+        success: Schema.Boolean
+      }))
+      .setUrlParams(OutboxListDeadLetterRequest)
+      .annotate(OpenApi.Description, "Outbox List Dead Letter")
+      .annotate(OpenApi.Summary, "Outbox List Dead Letter")
+  )
+  .add(
+    HttpApiEndpoint.post("replay", "/dead-letter/:outboxId/replay")
+      .addSuccess(OutboxResponse)
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPath(Schema.Struct({ outboxId: OutboxId }))
+      .setPayload(OutboxReplayRequest)
+      .annotate(OpenApi.Description, "Outbox Replay")
+      .annotate(OpenApi.Summary, "Outbox Replay")
+  )
+  .add(
+    HttpApiEndpoint.post("edit", "/dead-letter/:outboxId/edit")
+      .addSuccess(OutboxResponse)
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPath(Schema.Struct({ outboxId: OutboxId }))
+      .setPayload(OutboxEditRequest)
+      .annotate(OpenApi.Description, "Outbox Edit")
+      .annotate(OpenApi.Summary, "Outbox Edit")
+  )
+  .add(
+    HttpApiEndpoint.post("discard", "/dead-letter/:outboxId/discard")
+      .addSuccess(OutboxResponse)
+      .addError(NotFound)
+      .addError(Conflict)
+      .setPath(Schema.Struct({ outboxId: OutboxId }))
+      .setPayload(OutboxReplayRequest)
+      .annotate(OpenApi.Description, "Outbox Discard")
+      .annotate(OpenApi.Summary, "Outbox Discard")
+  )
+  .annotate(OpenApi.Description, "Manage Outbox Dead Letter Queue")
+  .annotate(OpenApi.Summary, "Manage Outbox Dead Letter Queue")
+  .annotate(OpenApi.Title, "Outbox")
+  .prefix("/outbox")
+{}
+
+const Api = HttpApi.make("api")
+  .add(OutboxHttpApiGroup)
+  .prefix("/api/v1")
+
+export const OutboxHttpApiLive = HttpApiBuilder.group(
+  Api,
+  "outbox",
+  (handlers) =>
+    Effect.gen(function*() {
+      const outboxReplayRepository = yield* OutboxReplayRepository
+      const outboxRepository = yield* OutboxRepository
+      const sql = yield* SqlClient.SqlClient
+
+      // Applies an operator action to a dead-lettered event and records it
+      const resolve = (
+        outboxId: OutboxId,
+        action: OutboxReplaySchema["action"],
+        reason: string | null,
+        update: (outbox: Outbox) => Outbox
+      ) =>
+        Effect.gen(function*() {
+          yield* Console.log(`[Outbox] Outbox ${action} ${{ outboxId, reason }}`)
+          let outbox = yield* outboxRepository.findOne({ outboxId }).pipe(orNotFound("Outbox", outboxId))
+          if (outbox.status !== "DEAD_LETTERED" && outbox.status !== "REJECTED") {
+            return yield* new Conflict({
+              message: `Outbox is ${outbox.status}, only DEAD_LETTERED or REJECTED events can be resolved`
+            })
+          }
+          const previousPayload = outbox.payload
+          const updated = update(outbox)
+          if (action === "EDIT") {
+            yield* Schema.decodeUnknown(OutboxEvent)(updated).pipe(
+              Effect.catchTag(
+                "ParseError",
+                (error) => new Conflict({ message: `Payload does not match ${outbox.eventType}: ${error.message}` })
+              )
+            )
+          }
+          outbox = yield* outboxRepository.save(updated)
+          yield* outboxReplayRepository.save(
+            new OutboxReplay({
+              id: OutboxReplayId.make(uuidv7()),
+              action,
+              outboxId,
+              payload: outbox.payload,
+              previousPayload,
+              reason
+            })
+          )
+          yield* Console.log(`[Outbox] Outbox ${action} recorded: ${outboxId}`)
+          return {
+            data: outbox,
+            message: `Outbox ${action} recorded`,
+            success: true
+          }
+        }).pipe(sql.withTransaction, Effect.catchTag("SqlError", fromSqlError))
+
+      return handlers.handle("listDeadLetter", ({ urlParams: { limit } }) =>
+        Effect.gen(function*() {
+          yield* Console.log(`[Outbox] Outbox list dead letter ${{ limit }}`)
+          const outboxs = yield* outboxRepository.findDeadLettered({ limit })
+          return {
+            data: outboxs,
+            message: "",
+            success: true
+          }
+        })).handle(
+          "replay",
+          ({ path: { outboxId }, payload: { reason } }) =>
+            resolve(outboxId, "REPLAY", reason, (outbox) =>
+              Outbox.make({
+                ...outbox,
+                claimedBy: null,
+                claimedUntil: null,
+                lastError: null,
+                nextAttemptAt: null,
+                publishAttempts: 0,
+                status: "PENDING"
+              }))
+        ).handle(
+          "edit",
+          ({ path: { outboxId }, payload: { payload, reason } }) =>
+            resolve(outboxId, "EDIT", reason, (outbox) =>
+              Outbox.make({
+                ...outbox,
+                payload
+              }))
+        ).handle(
+          "discard",
+          ({ path: { outboxId }, payload: { reason } }) =>
+            resolve(outboxId, "DISCARD", reason, (outbox) =>
+              Outbox.make({
+                ...outbox,
+                status: "DISCARDED"
+              }))
+        )
+    })
+)
+
+export interface Backoff {
+  readonly baseDelayMs: number
+  readonly factor: number
+  readonly jitter: number
+  readonly maxDelayMs: number
+}
+
+export class ConfigService extends Context.Tag("@context/ConfigService")<
   ConfigService,
   {
+    readonly backoff: Backoff
     readonly batchSize: number
+    readonly leaseMs: number
     readonly maxRetries: number
+    readonly publisherId: string
     readonly pollIntervalMs: number
-    readonly requestTimeoutMs: number
-    readonly serviceUrls: Record<OutboxSchema["targetService"], string>
   }
 >() {}
 
 const ConfigServiceLive = Layer.effect(
   ConfigService,
   Effect.gen(function*() {
+    const backoff = {
+      baseDelayMs: yield* Config.integer("BACKOFF_BASE_DELAY_MS").pipe(
+        Config.withDefault(1000)
+      ),
+      factor: yield* Config.number("BACKOFF_FACTOR").pipe(
+        Config.withDefault(2)
+      ),
+      jitter: yield* Config.number("BACKOFF_JITTER").pipe(
+        Config.withDefault(0.2)
+      ),
+      maxDelayMs: yield* Config.integer("BACKOFF_MAX_DELAY_MS").pipe(
+        Config.withDefault(60000)
+      )
+    }
     const batchSize = yield* Config.integer("BATCH_SIZE").pipe(
       Config.withDefault(10)
     )
+    const leaseMs = yield* Config.integer("LEASE_MS").pipe(
+      Config.withDefault(30000)
+    )
     const maxRetries = yield* Config.integer("MAX_RETRIES").pipe(
       Config.withDefault(3)
     )
     const pollIntervalMs = yield* Config.number("POLL_INTERVAL_MS").pipe(
-      Config.withDefault(1000)
-    )
-    const requestTimeoutMs = yield* Config.integer("REQUEST_TIMEOUT_MS").pipe(
       Config.withDefault(5000)
     )
-    const serviceUrls = {
-      ORDER: yield* Config.string("ORDER_SERVICE_URL").pipe(
-        Config.withDefault("http://127.0.0.1:3001")
-      ),
-      PAYMENT: yield* Config.string("PAYMENT_SERVICE_URL").pipe(
-        Config.withDefault("http://127.0.0.1:3002")
-      ),
-      INVENTORY: yield* Config.string("INVENTORY_SERVICE_URL").pipe(
-        Config.withDefault("http://127.0.0.1:3003")
-      ),
-      SHIPPING: yield* Config.string("SHIPPING_SERVICE_URL").pipe(
-        Config.withDefault("http://127.0.0.1:3004")
-      )
-    }
-
+    const publisherId = yield* Config.string("PUBLISHER_ID").pipe(
+      Config.withDefault(uuidv7())
+    )
     return {
+      backoff,
       batchSize,
+      leaseMs,
       maxRetries,
       pollIntervalMs,
-      requestTimeoutMs,
-      serviceUrls
+      publisherId
     }
   })
 )
 
-const buildTargetUrl = (
-  service: OutboxSchema["targetService"],
-  endpoint: string,
-  serviceUrls: Record<OutboxSchema["targetService"], string>
-): Effect.Effect<string, Error> => {
-  const baseUrl = serviceUrls[service]
-  if (!baseUrl) {
-    return Effect.fail(new Error(`Unknown service: ${service}`))
-  }
-  return Effect.succeed(`${baseUrl}/api/v1${endpoint}`)
-}
+// Exponential delay before the next attempt, with `jitter` as a +/- fraction of it
+export const backoffDelay = (publishAttempts: number, { baseDelayMs, factor, jitter, maxDelayMs }: Backoff) =>
+  Random.nextRange(1 - jitter, 1 + jitter).pipe(
+    Effect.map((spread) =>
+      Duration.millis(Math.round(Math.min(maxDelayMs, baseDelayMs * Math.pow(factor, publishAttempts - 1)) * spread))
+    )
+  )
 
-const publishSingleEvent = (event: Outbox) =>
+// Outcome of an event claimed by this publisher; a publisher whose lease expired meanwhile must not
+// overwrite the outcome recorded by the one holding it now
+const release = (event: Outbox, retryDelay?: Duration.Duration) =>
   Effect.gen(function*() {
     const config = yield* ConfigService
-    const httpCient = yield* HttpClient.HttpClient
     const outboxRepository = yield* OutboxRepository
+    const released = yield* outboxRepository.release(event, { claimedBy: config.publisherId, retryDelay })
+    if (Option.isNone(released)) {
+      yield* Console.warn(`Lease on event ${event.id} expired, its ${event.status} outcome is discarded`)
+    }
+  })
+
+export const publishSingleEvent = (event: Outbox) =>
+  Effect.gen(function*() {
+    const transport = yield* OutboxTransport
 
     yield* Console.info(
       `Publishing event: ${event.eventType} with ID: ${event.id}`
     )
 
-    const targetUrl = yield* buildTargetUrl(
-      event.targetService,
-      event.targetEndpoint,
-      config.serviceUrls
-    )
-
-    const idempotencyKey = `${event.aggregateId}-${event.eventType}`
-
-    yield* HttpClientRequest.post(
-      targetUrl,
-      { headers: { "idempotency-key": idempotencyKey } }
-    ).pipe(
-      HttpClientRequest.bodyText(
-        JSON.stringify(event.payload),
-        "application/json; charset=UTF-8"
-      ),
-      httpCient.execute,
-      Effect.flatMap((res) => res.json),
-      Effect.timeout(Duration.millis(config.requestTimeoutMs))
+    // The target would refuse an event whose payload does not match its event type
+    yield* Schema.decodeUnknown(OutboxEvent)(event).pipe(
+      Effect.mapError((error) => new OutboxRejectedError({ message: `Invalid event: ${error.message}` }))
     )
-    const newEvent = Outbox.make({
+    yield* transport.send(event)
+    yield* release(Outbox.make({
       ...event,
       isPublished: true,
-      publishedAt: new Date()
-    })
-    yield* outboxRepository.save(newEvent)
+      publishedAt: new Date(yield* Clock.currentTimeMillis),
+      status: "PUBLISHED"
+    }))
     yield* Console.info(`Event isPublished successfully: ${event.id}`)
   }).pipe(
-    Effect.catchAll((error) =>
-      Effect.gen(function*() {
-        const config = yield* ConfigService
-        const outboxRepository = yield* OutboxRepository
-        yield* Console.error(
-          `Failed to publish event ${event.id}: ${error.message}`
-        )
-        let newEvent = Outbox.make({
-          ...event,
-          publishAttempts: event.publishAttempts + 1,
-          lastError: error.message
+    Effect.catchTags({
+      OutboxRetryableError: (error) =>
+        Effect.gen(function*() {
+          const config = yield* ConfigService
+          yield* Console.error(
+            `Failed to publish event ${event.id}: ${error.message}`
+          )
+          const publishAttempts = event.publishAttempts + 1
+          if (publishAttempts >= config.maxRetries) {
+            yield* Console.warn(`Event ${event.id} exhausted all retries, moved to dead letter`)
+            yield* release(Outbox.make({
+              ...event,
+              isPublished: false,
+              lastError: error.message,
+              publishAttempts,
+              status: "DEAD_LETTERED"
+            }))
+            return
+          }
+          // Released with a due time, so the event can be claimed again once it is due
+          const delay = yield* backoffDelay(publishAttempts, config.backoff)
+          yield* Console.info(`Event ${event.id} will be retried in ${Duration.format(delay)}`)
+          yield* release(
+            Outbox.make({
+              ...event,
+              lastError: error.message,
+              publishAttempts,
+              status: "RETRYING"
+            }),
+            delay
+          )
+        }),
+      OutboxRejectedError: (error) =>
+        Effect.gen(function*() {
+          yield* Console.error(`Event ${event.id} rejected, not retrying: ${error.message}`)
+          yield* release(Outbox.make({
+            ...event,
+            publishAttempts: event.publishAttempts + 1,
+            lastError: error.message,
+            status: "REJECTED"
+          }))
+        }),
+      OutboxStepFailedError: (error) =>
+        Effect.gen(function*() {
+          yield* Console.warn(`Event ${event.id} delivered but its step failed: ${error.message}`)
+          yield* release(Outbox.make({
+            ...event,
+            publishAttempts: event.publishAttempts + 1,
+            lastError: error.message,
+            status: "FAILED"
+          }))
         })
-        if (newEvent.publishAttempts >= config.maxRetries) {
-          yield* Console.warn(`Event ${event.id} exhausted all retries`)
-          newEvent = Outbox.make({
-            ...newEvent,
-            isPublished: false
-          })
-          yield* outboxRepository.save(newEvent)
-          return
-        }
-        yield* outboxRepository.save(event)
-      })
-    )
+    })
   )
 
 const publishPendingEvents = Effect.gen(function*() {
   const config = yield* ConfigService
   const repository = yield* OutboxRepository
-  const events = yield* repository.findUnpublished({
-    batchSize: config.batchSize
+  const events = yield* repository.claimUnpublished({
+    batchSize: config.batchSize,
+    claimedBy: config.publisherId,
+    leaseMs: config.leaseMs
   })
   if (events.length === 0) {
-    yield* Console.info("No pending events found")
-    return
+    return 0
   }
   yield* Console.info(`Found ${events.length} unpublished events`)
   // Process events in parallel with limited concurrency
   yield* Effect.forEach(events, publishSingleEvent, {
     concurrency: 5
   })
+  return events.length
 })
 // .pipe(
 //   Effect.catchAll((error) =>
@@ -292,24 +946,35 @@ const publishPendingEvents = Effect.gen(function*() {
 //   )
 // )
 
-const pollOnce = publishPendingEvents.pipe(
-  Effect.tap(() => Console.log("Poll cycle completed"))
+// Drain until a batch comes back short, more events may be pending than fit in one batch
+const publishAllPendingEvents = Effect.gen(function*() {
+  const config = yield* ConfigService
+  yield* Effect.repeat(publishPendingEvents, { while: (published) => published === config.batchSize })
+}).pipe(
+  // Claimed events are released when their lease expires, the next wake-up picks them up again
+  Effect.catchTag("PersistenceError", (error) => Console.error(`Publishing pending events failed: ${error.message}`))
 )
 
-const pollingSchedule = (pollIntervalMs: number) =>
-  Schedule.fixed(pollIntervalMs).pipe(
-    Schedule.intersect(Schedule.forever)
-  )
-
-const startPolling = Effect.gen(function*() {
+const startPublishing = Effect.gen(function*() {
   const config = yield* ConfigService
+  const pgClient = yield* PgClient.PgClient
 
   yield* Console.info(
-    `Starting outbox publisher with interval: ${config.pollIntervalMs}ms`
+    `Starting outbox publisher on ${outboxPendingChannel} with fallback interval: ${config.pollIntervalMs}ms`
   )
 
-  const fiber = yield* Effect.fork(
-    Effect.repeat(pollOnce, pollingSchedule(config.pollIntervalMs))
+  // The fallback poll picks up retries once due and events whose NOTIFY was missed, e.g. while reconnecting
+  const fiber = yield* Stream.merge(
+    pgClient.listen(outboxPendingChannel).pipe(
+      Stream.retry(Schedule.spaced(config.pollIntervalMs)),
+      Stream.orDie
+    ),
+    Stream.fromSchedule(Schedule.spaced(config.pollIntervalMs))
+  ).pipe(
+    // Wake-ups arriving while a batch is being published are coalesced into one
+    Stream.buffer({ capacity: 1, strategy: "sliding" }),
+    Stream.runForEach(() => publishAllPendingEvents),
+    Effect.fork
   )
 
   return fiber
@@ -317,13 +982,13 @@ const startPolling = Effect.gen(function*() {
 
 class OutboxPublisher extends Context.Tag("@context/OutboxPublisher")<
   OutboxPublisher,
-  Fiber.RuntimeFiber<[number, number]>
+  Fiber.RuntimeFiber<void>
 >() {}
 
 const OutboxPublisherLive = Layer.scoped(
   OutboxPublisher,
   Effect.gen(function*() {
-    const fiber = yield* startPolling
+    const fiber = yield* startPublishing
     return fiber
   })
 )
@@ -336,15 +1001,39 @@ const PgLive = PgClient.layer({
   username: "postgres"
 })
 
-export const ApplicationLayer = OutboxPublisherLive.pipe(
-  Layer.provide(
-    Layer.provideMerge(
-      Layer.mergeAll(
-        ConfigServiceLive,
-        FetchHttpClient.layer,
-        OutboxRepositoryLive
-      ),
-      PgLive
+// Publisher delivering through `transport`, e.g. `InMemoryOutboxTransportLive` or `PgNotifyOutboxTransportLive`
+export const makeApplicationLayer = <E, R>(transport: Layer.Layer<OutboxTransport, E, R>) =>
+  OutboxPublisherLive.pipe(
+    Layer.provide(
+      Layer.provideMerge(
+        Layer.mergeAll(
+          ConfigServiceLive,
+          OutboxRepositoryLive,
+          transport
+        ),
+        PgLive
+      )
+    )
+  )
+
+// Target side of the `pg-notify` transport, each service listens for the events addressed to it
+export const makeListenerLayer = (service: Outbox["targetService"]) =>
+  PgNotifyOutboxListenerLive(service).pipe(
+    Layer.provide(FetchHttpClient.layer)
+  )
+
+// OUTBOX_TRANSPORT selects how events reach their target, over HTTP or NOTIFYed to its `PgNotifyOutboxListenerLive`
+export const ApplicationLayer = makeApplicationLayer(
+  Layer.unwrapEffect(
+    Config.literal("http", "pg-notify")("OUTBOX_TRANSPORT").pipe(
+      Config.withDefault("http"),
+      Effect.map((transport): Layer.Layer<
+        OutboxTransport,
+        ConfigError.ConfigError,
+        HttpClient.HttpClient | PgClient.PgClient
+      > => transport === "pg-notify" ? PgNotifyOutboxTransportLive : HttpOutboxTransportLive)
     )
+  ).pipe(
+    Layer.provide(FetchHttpClient.layer)
   )
 )
@@ -0,0 +1,278 @@
+import { PgClient } from "@effect/sql-pg"
+import {
+  Config,
+  Console,
+  Context,
+  Data,
+  Duration,
+  Effect,
+  identity,
+  Layer,
+  PubSub,
+  Queue,
+  Schedule,
+  Schema,
+  Stream
+} from "effect"
+import { dispatch, type DispatchRequest, makeClient, TargetEndpoint } from "./Api.js"
+import { IdempotencyKey } from "./IdempotencyKey.js"
+import type { Outbox } from "./Outbox.js"
+
+// Target did not answer or answered with a transient failure (5xx, 408, 429, timeout, connection refused)
+export class OutboxRetryableError extends Data.TaggedError("OutboxRetryableError")<{
+  readonly message: string
+}> {}
+
+// Target refused the event and will refuse it again (4xx, unreadable response)
+export class OutboxRejectedError extends Data.TaggedError("OutboxRejectedError")<{
+  readonly message: string
+}> {}
+
+// Target accepted the event but its step reported `success: false`
+export class OutboxStepFailedError extends Data.TaggedError("OutboxStepFailedError")<{
+  readonly message: string
+}> {}
+
+export type OutboxTransportError = OutboxRejectedError | OutboxRetryableError | OutboxStepFailedError
+
+export class OutboxTransport extends Context.Tag("@context/OutboxTransport")<
+  OutboxTransport,
+  {
+    readonly send: (event: Outbox) => Effect.Effect<void, OutboxTransportError>
+  }
+>() {}
+
+// Key the target's inbox deduplicates deliveries of the same event by
+export const idempotencyKey = (event: Outbox) => IdempotencyKey.make(event.id)
+
+const StepResponse = Schema.Struct({
+  error: Schema.optional(Schema.String),
+  message: Schema.optional(Schema.String),
+  success: Schema.optional(Schema.Boolean)
+})
+
+const classifyBody = (body: typeof StepResponse.Type) =>
+  body.success === false ?
+    Effect.fail(new OutboxStepFailedError({ message: body.error ?? body.message ?? "Step failed" })) :
+    Effect.void
+
+const isRetryableStatus = (status: number) => status >= 500 || status === 408 || status === 429
+
+// Errors the contract declares arrive decoded, an undeclared status arrives as a `ResponseError`
+const classifyError = (error: Effect.Effect.Error<ReturnType<typeof dispatch>>) => {
+  switch (error._tag) {
+    case "PersistenceError":
+    case "RequestError":
+    case "Unavailable":
+      return new OutboxRetryableError({ message: error.message })
+    case "ResponseError":
+      return isRetryableStatus(error.response.status) ?
+        new OutboxRetryableError({ message: `HTTP ${error.response.status}` }) :
+        new OutboxRejectedError({ message: `HTTP ${error.response.status} ${error.message}` })
+    case "ParseError":
+      return new OutboxRejectedError({ message: `Invalid payload or response: ${error.message}` })
+    default:
+      return new OutboxRejectedError({ message: `${error._tag}: ${error.message}` })
+  }
+}
+
+// Delivers an event to the endpoint it targets through the contract's typed client
+const makeHttpDelivery = Effect.gen(function*() {
+  const requestTimeoutMs = yield* Config.integer("REQUEST_TIMEOUT_MS").pipe(
+    Config.withDefault(5000)
+  )
+  const client = yield* makeClient({
+    order: yield* Config.string("ORDER_SERVICE_URL").pipe(
+      Config.withDefault("http://127.0.0.1:3001")
+    ),
+    payment: yield* Config.string("PAYMENT_SERVICE_URL").pipe(
+      Config.withDefault("http://127.0.0.1:3002")
+    ),
+    inventory: yield* Config.string("INVENTORY_SERVICE_URL").pipe(
+      Config.withDefault("http://127.0.0.1:3003")
+    ),
+    shipping: yield* Config.string("SHIPPING_SERVICE_URL").pipe(
+      Config.withDefault("http://127.0.0.1:3004")
+    )
+  })
+
+  return (targetEndpoint: TargetEndpoint, request: DispatchRequest) =>
+    dispatch(client, targetEndpoint, request).pipe(
+      Effect.mapError(classifyError),
+      Effect.timeout(Duration.millis(requestTimeoutMs)),
+      Effect.catchTag(
+        "TimeoutException",
+        () => new OutboxRetryableError({ message: `Timed out after ${requestTimeoutMs}ms` })
+      ),
+      Effect.flatMap(classifyBody)
+    )
+})
+
+// Calls the target service's endpoint over HTTP
+export const HttpOutboxTransportLive = Layer.effect(
+  OutboxTransport,
+  Effect.gen(function*() {
+    const deliver = yield* makeHttpDelivery
+
+    return {
+      send: (event) => deliver(event.targetEndpoint, { idempotencyKey: idempotencyKey(event), payload: event.payload })
+    }
+  })
+).pipe(
+  Layer.orDie
+)
+
+export type InMemoryHandler = (request: {
+  readonly idempotencyKey: string
+  readonly payload: unknown
+}) => Effect.Effect<unknown>
+
+// Calls handlers registered per service and endpoint in the same process, e.g. to run all services in one test
+export const InMemoryOutboxTransportLive = (
+  handlers: Partial<Record<Outbox["targetService"], Partial<Record<TargetEndpoint, InMemoryHandler>>>>
+) =>
+  Layer.succeed(
+    OutboxTransport,
+    {
+      send: (event) =>
+        Effect.gen(function*() {
+          const handler = handlers[event.targetService]?.[event.targetEndpoint]
+          if (!handler) {
+            return yield* new OutboxRejectedError({
+              message: `No handler for ${event.targetService} ${event.targetEndpoint}`
+            })
+          }
+          const body = yield* handler({ idempotencyKey: idempotencyKey(event), payload: event.payload })
+          const response = yield* Schema.decodeUnknown(StepResponse)(body).pipe(
+            Effect.mapError((error) => new OutboxRejectedError({ message: `Invalid response: ${error.message}` }))
+          )
+          return yield* classifyBody(response)
+        })
+    }
+  )
+
+// Postgres caps NOTIFY payloads at 8000 bytes
+const maxNotifyBytes = 8000
+
+// Channel the target service LISTENs on
+export const notifyChannel = (service: Outbox["targetService"]) => `outbox_${service.toLowerCase()}`
+
+// Channel target services NOTIFY the outcome of each event on, publishers pick theirs by event id
+export const notifyReplyChannel = "outbox_reply"
+
+// Event as NOTIFYed to its target service, the payload is decoded with the request schema of its endpoint
+const NotifyRequest = Schema.parseJson(Schema.Struct({
+  id: Schema.String,
+  eventType: Schema.String,
+  idempotencyKey: IdempotencyKey,
+  payload: Schema.Unknown,
+  targetEndpoint: TargetEndpoint
+}))
+
+// Outcome of an event as NOTIFYed back by its target service, none when its step succeeded
+const NotifyReply = Schema.parseJson(Schema.Struct({
+  id: Schema.String,
+  error: Schema.NullOr(Schema.Struct({
+    _tag: Schema.Literal("OutboxRejectedError", "OutboxRetryableError", "OutboxStepFailedError"),
+    message: Schema.String
+  }))
+}))
+type NotifyReply = typeof NotifyReply.Type
+
+const fromNotifyReply = ({ error }: NotifyReply): Effect.Effect<void, OutboxTransportError> => {
+  if (error === null) {
+    return Effect.void
+  }
+  switch (error._tag) {
+    case "OutboxRejectedError":
+      return new OutboxRejectedError({ message: error.message })
+    case "OutboxRetryableError":
+      return new OutboxRetryableError({ message: error.message })
+    case "OutboxStepFailedError":
+      return new OutboxStepFailedError({ message: error.message })
+  }
+}
+
+// NOTIFYs the target service's channel and waits for the outcome its `PgNotifyOutboxListenerLive` NOTIFYs back.
+// An event no listener answers in time is retried, the target's inbox answers a redelivery with the first outcome
+export const PgNotifyOutboxTransportLive = Layer.scoped(
+  OutboxTransport,
+  Effect.gen(function*() {
+    const pgClient = yield* PgClient.PgClient
+    const replyTimeoutMs = yield* Config.integer("REQUEST_TIMEOUT_MS").pipe(
+      Config.withDefault(5000)
+    )
+    const replies = yield* PubSub.unbounded<NotifyReply>()
+
+    yield* pgClient.listen(notifyReplyChannel).pipe(
+      Stream.mapEffect((message) =>
+        Schema.decode(NotifyReply)(message).pipe(
+          Effect.tapError((error) => Console.error(`[Outbox] Unreadable reply: ${error.message}`)),
+          Effect.option
+        )
+      ),
+      Stream.filterMap(identity),
+      Stream.runForEach((reply) => PubSub.publish(replies, reply)),
+      Effect.retry(Schedule.spaced(Duration.seconds(1))),
+      Effect.forkScoped
+    )
+
+    return {
+      send: (event) =>
+        Effect.gen(function*() {
+          const message = JSON.stringify({
+            id: event.id,
+            eventType: event.eventType,
+            idempotencyKey: idempotencyKey(event),
+            payload: event.payload,
+            targetEndpoint: event.targetEndpoint
+          })
+          if (Buffer.byteLength(message) > maxNotifyBytes) {
+            return yield* new OutboxRejectedError({ message: `Payload exceeds ${maxNotifyBytes} bytes` })
+          }
+          // Subscribed before NOTIFYing, so that a fast reply is not missed
+          const subscription = yield* PubSub.subscribe(replies)
+          yield* pgClient.notify(notifyChannel(event.targetService), message).pipe(
+            Effect.mapError((error) => new OutboxRetryableError({ message: error.message }))
+          )
+          const reply = yield* Queue.take(subscription).pipe(
+            Effect.repeat({ until: (reply) => reply.id === event.id }),
+            Effect.timeout(Duration.millis(replyTimeoutMs)),
+            Effect.catchTag(
+              "TimeoutException",
+              () => new OutboxRetryableError({ message: `No reply after ${replyTimeoutMs}ms` })
+            )
+          )
+          return yield* fromNotifyReply(reply)
+        }).pipe(Effect.scoped)
+    }
+  })
+)
+
+// Target side of `PgNotifyOutboxTransportLive`: LISTENs on the service's channel and calls the endpoint each event
+// targets over the service's own API, where its inbox deduplicates redeliveries, then NOTIFYs the outcome back
+export const PgNotifyOutboxListenerLive = (service: Outbox["targetService"]) =>
+  Layer.scopedDiscard(Effect.gen(function*() {
+    const pgClient = yield* PgClient.PgClient
+    const deliver = yield* makeHttpDelivery
+
+    const handle = (message: string) =>
+      Effect.gen(function*() {
+        const request = yield* Schema.decode(NotifyRequest)(message)
+        const error = yield* deliver(request.targetEndpoint, request).pipe(
+          Effect.as(null),
+          Effect.catchAll((error) => Effect.succeed({ _tag: error._tag, message: error.message }))
+        )
+        yield* pgClient.notify(notifyReplyChannel, yield* Schema.encode(NotifyReply)({ id: request.id, error }))
+      }).pipe(
+        // An event that cannot be read cannot be answered either, its publisher retries it until it dead-letters
+        Effect.catchAll((error) => Console.error(`[Outbox] ${service} could not handle event: ${error.message}`))
+      )
+
+    yield* Console.info(`[Outbox] ${service} listening on ${notifyChannel(service)}`)
+    yield* pgClient.listen(notifyChannel(service)).pipe(
+      Stream.runForEach(handle),
+      Effect.retry(Schedule.spaced(Duration.seconds(1))),
+      Effect.forkScoped
+    )
+  }))
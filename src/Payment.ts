@@ -1,74 +1,62 @@
-import {
-  HttpApi,
-  HttpApiBuilder,
-  HttpApiEndpoint,
-  HttpApiGroup,
-  HttpMiddleware,
-  HttpServer,
-  OpenApi
-} from "@effect/platform"
+import { HttpApi, HttpApiBuilder, HttpMiddleware, HttpServer, OpenApi } from "@effect/platform"
 import { NodeHttpServer, NodeRuntime } from "@effect/platform-node"
 import * as HttpApiScalar from "@effect/platform/HttpApiScalar"
 import * as HttpApiSwagger from "@effect/platform/HttpApiSwagger"
 import { SqlClient } from "@effect/sql"
 import { PgClient } from "@effect/sql-pg"
-import { Console, Context, Effect, flow, Layer, Logger, LogLevel, Redacted, Schema, String } from "effect"
+import { Console, Context, Effect, Either, flow, Layer, Logger, LogLevel, Option, Redacted, String } from "effect"
 import * as http from "node:http"
 import { v7 as uuidv7 } from "uuid"
-import { CustomerId } from "./CustomerId.js"
-import { IdempotencyKey } from "./IdempotencyKey.js"
-import { OrderId } from "./OrderId.js"
+import {
+  Payment,
+  PaymentHttpApiGroup,
+  PaymentId,
+  PaymentRefund,
+  PaymentRefundId,
+  PaymentResponse,
+  PaymentStepResponse
+} from "./Api.js"
+import {
+  Conflict,
+  fromParseError,
+  fromSqlError,
+  fromSqlErrorOrConflict,
+  NotFound,
+  orNotFound,
+  type PersistenceError,
+  Unavailable
+} from "./DomainError.js"
+import type { IdempotencyKey } from "./IdempotencyKey.js"
+import { InboxRepositoryLive, withInbox } from "./Inbox.js"
+import * as Money from "./Money.js"
+import type { OrderId } from "./OrderId.js"
+import { OrderSaga } from "./OrderSaga.js"
 import {
   ApplicationLayer as OutboxApplicationLayer,
+  makeListenerLayer as makeOutboxListenerLayer,
   Outbox,
-  OutboxId,
   OutboxRepository,
   OutboxRepositoryLive
 } from "./Outbox.js"
-import { SagaLog, SagaLogId, SagaLogRepository, SagaLogRepositoryLive } from "./SagaLog.js"
-
-const PaymentId = Schema.UUID.pipe(
-  Schema.brand("PaymentId"),
-  Schema.annotations({ description: "Payment Identification" })
-)
-type PaymentId = typeof PaymentId.Type
-
-const PaymentSchema = Schema.Struct({
-  id: PaymentId,
-  amount: Schema.Number.annotations({ description: "Amount" }),
-  compensationKey: Schema.optionalWith(Schema.NullOr(IdempotencyKey), { default: () => null }),
-  customerId: CustomerId,
-  idempotencyKey: IdempotencyKey,
-  orderId: OrderId,
-  sagaLogId: SagaLogId,
-  status: Schema.optionalWith(
-    Schema.Literal("PENDING", "PROCESSED", "FAILED", "REFUNDED"),
-    { default: () => "PENDING" }
-  ).annotations({ description: "Status" })
-  // createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" }),
-  // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
-  // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
-}).pipe(
-  Schema.annotations({ description: "Payment", identifier: "Payment" })
-)
-type PaymentSchema = typeof PaymentSchema.Type
-
-class Payment extends Schema.Class<Payment>("Payment")(PaymentSchema) {
-  static decodeUnknown = Schema.decodeUnknown(Payment)
-}
+import { PaymentGateway, type PaymentGatewayError, SimulatorPaymentGatewayFromConfigLive } from "./PaymentGateway.js"
+import * as Refund from "./Refund.js"
+import * as SagaDefinition from "./SagaDefinition.js"
+import type { SagaLogId } from "./SagaLog.js"
+import { SagaLog, SagaLogRepository, SagaLogRepositoryLive } from "./SagaLog.js"
 
 class PaymentRepository extends Context.Tag("@context/PaymentRepository")<
   PaymentRepository,
   {
     readonly findOne: (options: {
       idempotencyKey?: IdempotencyKey
+      lock?: boolean
       orderSagaLog?: {
         orderId: OrderId
         sagaLogId: SagaLogId
       }
       paymentId?: PaymentId
-    }) => Effect.Effect<Payment>
-    readonly save: (data: Payment) => Effect.Effect<Payment>
+    }) => Effect.Effect<Option.Option<Payment>, PersistenceError>
+    readonly save: (data: Payment) => Effect.Effect<Payment, PersistenceError>
   }
 >() {}
 
@@ -83,15 +71,29 @@ BEGIN
   IF NOT EXISTS (
     SELECT 1 FROM pg_type WHERE typname = 'payment_status'
   ) THEN
-    CREATE TYPE payment_status AS ENUM ('PENDING', 'PROCESSED', 'FAILED', 'REFUNDED');
+    CREATE TYPE payment_status AS ENUM ('PENDING', 'AUTHORIZED', 'CAPTURED', 'FAILED', 'VOIDED', 'PARTIALLY_REFUNDED', 'REFUNDED');
   END IF;
 END
 $$;
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'AUTHORIZED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'CAPTURED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'VOIDED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'PARTIALLY_REFUNDED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
 CREATE TABLE IF NOT EXISTS tbl_payment (
     id UUID PRIMARY KEY,
-    amount DECIMAL(15,2) NOT NULL CHECK (amount > 0),
+    amount JSONB NOT NULL CHECK ((amount->>'amount')::bigint > 0),
+    authorization_reference VARCHAR(255),
+    capture_reference VARCHAR(255),
     compensation_key UUID,
     customer_id UUID NOT NULL,
     idempotency_key UUID NOT NULL,
@@ -99,6 +101,32 @@ CREATE TABLE IF NOT EXISTS tbl_payment (
     saga_log_id UUID NOT NULL,
     status payment_status NOT NULL DEFAULT 'PENDING'
 );
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Payments taken before Money had DECIMAL major units in US dollars
+    const minorUnits = sql.literal(Money.sqlMinorUnits("'USD'"))
+    yield* sql`
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tbl_payment' AND column_name = 'amount' AND data_type = 'numeric'
+  ) THEN
+    ALTER TABLE tbl_payment DROP CONSTRAINT IF EXISTS tbl_payment_amount_check;
+    ALTER TABLE tbl_payment ALTER COLUMN amount TYPE JSONB
+      USING jsonb_build_object('amount', ROUND(amount * ${minorUnits})::bigint, 'currency', 'USD');
+    ALTER TABLE tbl_payment ADD CHECK ((amount->>'amount')::bigint > 0);
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TABLE tbl_payment
+    ADD COLUMN IF NOT EXISTS authorization_reference VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS capture_reference VARCHAR(255);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Payments processed before two-phase payments were charged at once
+    yield* sql`
+UPDATE tbl_payment SET status = 'CAPTURED' WHERE status::text = 'PROCESSED';
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
 CREATE INDEX IF NOT EXISTS idx_payments_order_id_saga_log_id ON tbl_payment(order_id, saga_log_id);
@@ -108,18 +136,19 @@ CREATE INDEX IF NOT EXISTS idx_payments_idempotency_key ON tbl_payment(idempoten
     `.pipe(Effect.catchTag("SqlError", Effect.die))
 
     return {
-      findOne: ({ idempotencyKey, orderSagaLog, paymentId }) =>
+      findOne: ({ idempotencyKey, lock, orderSagaLog, paymentId }) =>
         (idempotencyKey ?
           sql`SELECT * FROM tbl_payment WHERE idempotency_key = ${idempotencyKey} LIMIT 1` :
           orderSagaLog ?
-          sql`SELECT * FROM tbl_payment WHERE order_id = ${orderSagaLog.orderId} AND saga_log_id = ${orderSagaLog.sagaLogId} LIMIT 1` :
+          lock ?
+            sql`SELECT * FROM tbl_payment WHERE order_id = ${orderSagaLog.orderId} AND saga_log_id = ${orderSagaLog.sagaLogId} LIMIT 1 FOR UPDATE` :
+            sql`SELECT * FROM tbl_payment WHERE order_id = ${orderSagaLog.orderId} AND saga_log_id = ${orderSagaLog.sagaLogId} LIMIT 1` :
           paymentId ?
           sql`SELECT * FROM tbl_payment WHERE id = ${paymentId} LIMIT 1` :
           sql`SELECT * FROM tbl_payment LIMIT 1`).pipe(
-            Effect.catchTag("SqlError", Effect.die),
-            Effect.flatMap((rows) => Effect.succeed(rows[0])),
-            Effect.flatMap((row) => Payment.decodeUnknown(row)),
-            Effect.catchTag("ParseError", Effect.die)
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), Payment.decodeUnknown)),
+            Effect.catchTag("ParseError", fromParseError)
           ),
       save: (data) =>
         sql`
@@ -127,6 +156,8 @@ INSERT INTO tbl_payment ${sql.insert({ ...data })}
 ON CONFLICT (id) 
 DO UPDATE SET
     amount = EXCLUDED.amount,
+    authorization_reference = EXCLUDED.authorization_reference,
+    capture_reference = EXCLUDED.capture_reference,
     compensation_key = EXCLUDED.compensation_key,
     customer_id = EXCLUDED.customer_id,
     idempotency_key = EXCLUDED.idempotency_key,
@@ -135,62 +166,67 @@ DO UPDATE SET
     status = EXCLUDED.status
 RETURNING *;
 `.pipe(
-          Effect.catchTag("SqlError", Effect.die),
+          Effect.catchTag("SqlError", fromSqlError),
           Effect.flatMap((rows) => Effect.succeed(rows[0])),
           Effect.flatMap((row) => Payment.decodeUnknown(row)),
-          Effect.catchTag("ParseError", Effect.die)
+          Effect.catchTag("ParseError", fromParseError)
         )
     }
   })
 )
 
-const PaymentProcessRequest = Schema.Struct({
-  amount: Schema.Number.annotations({ description: "Amount" }),
-  customerId: CustomerId,
-  orderId: OrderId,
-  sagaLogId: SagaLogId
-}).pipe(
-  Schema.annotations({ description: "Payment Process Request", identifier: "PaymentProcessRequest" })
-)
-type PaymentProcessRequest = typeof PaymentProcessRequest.Type
+class PaymentRefundRepository extends Context.Tag("@context/PaymentRefundRepository")<
+  PaymentRefundRepository,
+  {
+    // Refunds of the payment, oldest first
+    readonly findAll: (options: {
+      paymentId: PaymentId
+    }) => Effect.Effect<Array<PaymentRefund>, PersistenceError>
+    // A second refund with the same idempotency key is a Conflict
+    readonly save: (data: PaymentRefund) => Effect.Effect<PaymentRefund, Conflict | PersistenceError>
+  }
+>() {}
 
-const PaymentRefundRequest = Schema.Struct({
-  orderId: OrderId,
-  sagaLogId: SagaLogId
-}).pipe(
-  Schema.annotations({ description: "Payment Refund Request", identifier: "PaymentRefundRequest" })
-)
-type PaymentRefundRequest = typeof PaymentRefundRequest.Type
+const PaymentRefundRepositoryLive = Layer.effect(
+  PaymentRefundRepository,
+  Effect.gen(function*() {
+    const sql = yield* SqlClient.SqlClient
 
-class PaymentHttpApiGroup extends HttpApiGroup.make("payment")
-  .add(
-    HttpApiEndpoint.post("process", "/process")
-      .addSuccess(Schema.Struct({}))
-      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(PaymentProcessRequest)
-      .annotate(OpenApi.Description, "Payment Start")
-      .annotate(OpenApi.Summary, "Payment Start")
-  )
-  .add(
-    HttpApiEndpoint.post("refund", "/refund")
-      .addSuccess(Schema.Struct({}))
-      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(PaymentRefundRequest)
-      .annotate(OpenApi.Description, "Payment Refund")
-      .annotate(OpenApi.Summary, "Payment Refund")
-  )
-  .add(
-    HttpApiEndpoint.get("get", "/:paymentId")
-      .addSuccess(Schema.Struct({}))
-      .setPath(Schema.Struct({ paymentId: PaymentId }))
-      .annotate(OpenApi.Description, "Payment Get")
-      .annotate(OpenApi.Summary, "Payment Get")
-  )
-  .annotate(OpenApi.Description, "Manage Payment")
-  .annotate(OpenApi.Summary, "Manage Payment")
-  .annotate(OpenApi.Title, "Payment")
-  .prefix("/payment")
-{}
+    yield* sql`
+CREATE TABLE IF NOT EXISTS tbl_payment_refund (
+    id UUID PRIMARY KEY,
+    amount JSONB NOT NULL CHECK ((amount->>'amount')::bigint > 0),
+    idempotency_key UUID NOT NULL UNIQUE,
+    payment_id UUID NOT NULL,
+    reason TEXT,
+    reference VARCHAR(255) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+CREATE INDEX IF NOT EXISTS idx_payment_refund_payment_id ON tbl_payment_refund(payment_id);
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+
+    return {
+      findAll: ({ paymentId }) =>
+        sql`SELECT * FROM tbl_payment_refund WHERE payment_id = ${paymentId} ORDER BY created_at`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.all(rows.map((row) => PaymentRefund.decodeUnknown(row)))),
+          Effect.catchTag("ParseError", fromParseError)
+        ),
+      save: (data) =>
+        sql`
+INSERT INTO tbl_payment_refund ${sql.insert({ ...data })}
+RETURNING *;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlErrorOrConflict),
+          Effect.flatMap((rows) => Effect.succeed(rows[0])),
+          Effect.flatMap((row) => PaymentRefund.decodeUnknown(row)),
+          Effect.catchTag("ParseError", fromParseError)
+        )
+    }
+  })
+)
 
 const Api = HttpApi.make("api")
   .add(PaymentHttpApiGroup)
@@ -205,37 +241,24 @@ const PaymentHttpApiLive = HttpApiBuilder.group(
   (handlers) =>
     Effect.gen(function*() {
       const outboxRepository = yield* OutboxRepository
+      const paymentGateway = yield* PaymentGateway
+      const paymentRefundRepository = yield* PaymentRefundRepository
       const paymentRepository = yield* PaymentRepository
       const sagaLogRepository = yield* SagaLogRepository
+      const sql = yield* SqlClient.SqlClient
 
       return handlers.handle(
         "process",
-        ({ headers: { "idempotency-key": idempotencyKey }, payload: { amount, customerId, orderId, sagaLogId } }) =>
+        (
+          { headers: { "idempotency-key": idempotencyKey }, payload: { amount, card, customerId, orderId, sagaLogId } }
+        ) =>
           Effect.gen(function*() {
             yield* Console.log(
               `[Payment Service] Payment start ${{ idempotencyKey, amount, customerId, orderId, sagaLogId }}`
             )
-            // Check if payment already processed
-            const existingPayment = yield* paymentRepository.findOne({ idempotencyKey })
-            if (existingPayment) {
-              yield* Console.log(`[Payment Service] Payment already processed with key: ${idempotencyKey}`)
-              return {
-                data: existingPayment,
-                message: "Payment already processed",
-                success: true
-              }
-            }
             // Get saga log to track progress
-            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId })
-            if (!sagaLog) {
-              console.error(`[Payment Service] SagaLog not found for sagaLogId: ${sagaLogId}`)
-              // throw new Error("SagaLog not found")
-              return {
-                message: "SagaLog not found",
-                success: false
-              }
-            }
-            // Execute payment and outbox write without transaction for now
+            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId }).pipe(orNotFound("SagaLog", sagaLogId))
+            // Execute payment and outbox write in a single transaction
             // try {
             // Re-fetch sagaLog to ensure we have the latest version
             // sagaLog = await SagaLog.findOne({ sagaLogId })
@@ -246,11 +269,41 @@ const PaymentHttpApiLive = HttpApiBuilder.group(
             //     success: false
             //   }
             // }
-            // Simulate payment processing - randomly succeed or fail for demo
-            const shouldFail = Math.random() < 0.1 // 10% failure rate for demo
-            const status = shouldFail ? "FAILED" : "PROCESSED"
+            // Charge the total frozen when the order started, whatever amount the event carries
+            if (!Money.equals(amount, sagaLog.totalPrice)) {
+              const error = `Amount ${Money.format(amount)} does not match order total ${
+                Money.format(sagaLog.totalPrice)
+              }`
+              yield* Console.log(`[Payment Service] ${error}`)
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "PROCESS_PAYMENT"
+                    ? { ...step, status: "FAILED", error }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
+              return {
+                error,
+                message: "Error processing payment",
+                success: false
+              }
+            }
+            // Only authorize through the gateway, the amount is captured once the order has shipped.
+            // A declined payment fails the step while an unavailable gateway fails the request,
+            // so that the event is retried with the same key
+            const authorization = yield* paymentGateway.authorize({ amount, card, customerId, idempotencyKey, orderId })
+              .pipe(
+                Effect.catchTag("PaymentGatewayUnavailableError", ({ message }) => new Unavailable({ message })),
+                Effect.map(Either.right),
+                Effect.catchTag("PaymentDeclinedError", (error) => Effect.succeed(Either.left(error)))
+              )
+            const status = Either.isLeft(authorization) ? "FAILED" : "AUTHORIZED"
             const payment = new Payment({
               id: PaymentId.make(uuidv7()),
+              authorizationReference: Either.isRight(authorization) ? authorization.right.reference : null,
               idempotencyKey,
               orderId,
               customerId,
@@ -269,26 +322,26 @@ const PaymentHttpApiLive = HttpApiBuilder.group(
               )
             })
             yield* sagaLogRepository.save(sagaLog)
-            if (shouldFail) {
-              yield* Console.log(`[Payment Service] Payment failed`)
+            if (Either.isLeft(authorization)) {
+              yield* Console.log(`[Payment Service] Payment failed: ${authorization.left.reason}`)
               // Update saga log
               sagaLog = new SagaLog({
                 ...sagaLog,
                 steps: sagaLog.steps.map((step) =>
                   step.name === "PROCESS_PAYMENT"
-                    ? { ...step, status: "FAILED", error: "Payment declined" }
+                    ? { ...step, status: "FAILED", error: `Payment declined: ${authorization.left.reason}` }
                     : step
                 )
               })
               yield* sagaLogRepository.save(sagaLog)
               // throw new Error("Payment declined")
               return {
-                error: "Payment declined",
+                error: `Payment declined: ${authorization.left.reason}`,
                 message: "Error processing payment",
                 success: false
               }
             }
-            yield* Console.log(`[Payment Service] Payment processed`)
+            yield* Console.log(`[Payment Service] Payment authorized`)
             // Update saga log
             sagaLog = new SagaLog({
               ...sagaLog,
@@ -301,25 +354,16 @@ const PaymentHttpApiLive = HttpApiBuilder.group(
             yield* sagaLogRepository.save(sagaLog)
             // Write inventory event to Outbox
             yield* Console.log(`[Payment Service] Writing inventory event to Outbox`)
-            const outboxEntry = new Outbox({
-              id: OutboxId.make(uuidv7()),
-              aggregateId: orderId,
-              eventType: "PAYMENT_PROCESSED",
-              payload: {
-                orderId,
-                sagaLogId,
-                productId: sagaLog.productId || "unknown",
-                quantity: sagaLog.quantity || 1
-              },
-              targetService: "INVENTORY",
-              targetEndpoint: "/inventories/update-inventory",
-              isPublished: false
-            })
-            yield* outboxRepository.save(outboxEntry)
-            yield* Console.log(`[Payment Service] Inventory event written to Outbox: ${outboxEntry.id}`)
+            yield* Effect.transposeMapOption(SagaDefinition.next(OrderSaga, "PROCESS_PAYMENT", sagaLog), (dispatch) =>
+              Effect.gen(function*() {
+                const outboxEntry = yield* outboxRepository.save(
+                  yield* Outbox.fromEvent(orderId, dispatch)
+                )
+                yield* Console.log(`[Payment Service] Inventory event written to Outbox: ${outboxEntry.id}`)
+              }))
             return {
               data: payment,
-              message: "Payment processed - inventory event queued",
+              message: "Payment authorized - inventory event queued",
               success: true
             }
             // } catch (innerError) {
@@ -329,27 +373,111 @@ const PaymentHttpApiLive = HttpApiBuilder.group(
             //   message: "Payment processed - inventory event queued",
             //   success: true
             // }
-          })
+          }).pipe(
+            withInbox({ handler: "payment.process", idempotencyKey, schema: PaymentStepResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
       ).handle(
         "refund",
-        ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, sagaLogId } }) =>
+        ({ headers: { "idempotency-key": idempotencyKey }, payload: { amount, orderId, reason, sagaLogId } }) =>
           Effect.gen(function*() {
-            yield* Console.log(`[Payment Service] Payment refund ${{ idempotencyKey, orderId, sagaLogId }}`)
-            let payment = yield* paymentRepository.findOne({ orderSagaLog: { orderId, sagaLogId } })
-            if (!payment) {
+            yield* Console.log(
+              `[Payment Service] Payment refund ${{ idempotencyKey, amount, orderId, reason, sagaLogId }}`
+            )
+            // A refund without amount is the saga's compensation, reversing whatever is left of the payment
+            const compensation = amount === null
+            // Get saga log to track compensation progress
+            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId }).pipe(orNotFound("SagaLog", sagaLogId))
+            // Lock the payment, so that concurrent refunds cannot exceed the captured amount
+            const existingPayment = yield* paymentRepository.findOne({
+              lock: true,
+              orderSagaLog: { orderId, sagaLogId }
+            })
+            if (Option.isNone(existingPayment)) {
+              if (!compensation) {
+                return yield* new NotFound({ entity: "Payment", message: `Payment not found for order: ${orderId}` })
+              }
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "PROCESS_PAYMENT"
+                    ? { ...step, compensationStatus: "FAILED", error: "Payment not found" }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
               // throw new Error("Payment not found")
               return {
                 message: "Payment not found",
                 success: false
               }
             }
-            // Mark as already refunded if compensation key matches
-            if (payment.compensationKey === idempotencyKey) {
-              yield* Console.log(`[Payment Service] Payment already refunded with key: ${idempotencyKey}`)
+            let payment = existingPayment.value
+            const captured = Refund.isCaptured(payment)
+            const paymentId = payment.id
+            const refunds = yield* paymentRefundRepository.findAll({ paymentId })
+            const refundable = Refund.refundable(payment, refunds)
+            const refundAmount = amount ?? refundable
+            if (amount !== null) {
+              const refused = Refund.refusePartialRefund(payment, refunds, amount)
+              if (Option.isSome(refused)) {
+                yield* Console.log(`[Payment Service] ${refused.value}`)
+                return yield* new Conflict({ message: refused.value })
+              }
+            }
+            // Void an authorization that was not captured yet and refund a captured one,
+            // a failed or fully refunded payment has nothing left to undo
+            const reverse: Effect.Effect<Payment["status"], PaymentGatewayError | Conflict | PersistenceError> =
+              payment.status === "AUTHORIZED" && payment.authorizationReference !== null ?
+                paymentGateway.void({ authorization: payment.authorizationReference, idempotencyKey }).pipe(
+                  Effect.as("VOIDED" as const)
+                ) :
+                captured && payment.captureReference !== null && Money.isPositive(refundAmount) ?
+                paymentGateway.refund({ amount: refundAmount, capture: payment.captureReference, idempotencyKey })
+                  .pipe(
+                    Effect.tap((receipt) =>
+                      paymentRefundRepository.save(
+                        new PaymentRefund({
+                          id: PaymentRefundId.make(uuidv7()),
+                          amount: refundAmount,
+                          idempotencyKey,
+                          paymentId,
+                          reason,
+                          reference: receipt.reference
+                        })
+                      )
+                    ),
+                    Effect.as(
+                      Money.equals(refundAmount, refundable) ? "REFUNDED" as const : "PARTIALLY_REFUNDED" as const
+                    )
+                  ) :
+                Effect.succeed(payment.status)
+            const reversal = yield* reverse.pipe(
+              Effect.catchTag("PaymentGatewayUnavailableError", ({ message }) => new Unavailable({ message })),
+              Effect.map(Either.right),
+              Effect.catchTag("PaymentDeclinedError", (error) => Effect.succeed(Either.left(error)))
+            )
+            if (Either.isLeft(reversal)) {
+              const error = `Payment reversal declined: ${reversal.left.reason}`
+              yield* Console.log(`[Payment Service] ${error}`)
+              if (!compensation) {
+                return yield* new Conflict({ message: error })
+              }
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "PROCESS_PAYMENT"
+                    ? { ...step, compensationStatus: "FAILED", error }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
               return {
-                data: payment,
-                message: "Payment already refunded",
-                success: true
+                message: error,
+                success: false
               }
             }
             // const updatedPayment = await Payment.findOneAndUpdate(
@@ -362,36 +490,106 @@ const PaymentHttpApiLive = HttpApiBuilder.group(
             // )
             payment = new Payment({
               ...payment,
-              status: "REFUNDED",
-              compensationKey: idempotencyKey
+              status: reversal.right,
+              compensationKey: compensation ? idempotencyKey : payment.compensationKey
             })
             payment = yield* paymentRepository.save(payment)
-            yield* Console.log(`[Payment Service] Payment refunded: ${orderId}`)
+            yield* Console.log(`[Payment Service] Payment ${payment.status}: ${orderId}`)
+            if (!compensation) {
+              return {
+                data: payment,
+                message: "Payment refunded successfully",
+                success: true
+              }
+            }
+            // Update saga log
+            sagaLog = new SagaLog({
+              ...sagaLog,
+              steps: sagaLog.steps.map((step) =>
+                step.name === "PROCESS_PAYMENT"
+                  ? { ...step, compensationStatus: "COMPLETED", status: "COMPENSATED", timestamp: new Date() }
+                  : step
+              )
+            })
+            yield* sagaLogRepository.save(sagaLog)
             return {
               data: payment,
-              message: "Payment refunded successfully",
+              message: "Payment compensated successfully",
               success: true
             }
-          })
-      ).handle("get", ({ path: { paymentId } }) =>
-        Effect.gen(function*() {
-          yield* Console.log(
-            `[Payment Service] Payment get ${{ paymentId }}`
+          }).pipe(
+            withInbox({ handler: "payment.refund", idempotencyKey, schema: PaymentStepResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
           )
-          const payment = yield* paymentRepository.findOne({ paymentId })
-          if (!payment) {
-            // throw new Error("Payment not found")
+      ).handle(
+        "capture",
+        ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, sagaLogId } }) =>
+          Effect.gen(function*() {
+            yield* Console.log(`[Payment Service] Payment capture ${{ idempotencyKey, orderId, sagaLogId }}`)
+            let payment = yield* paymentRepository.findOne({ orderSagaLog: { orderId, sagaLogId } }).pipe(
+              orNotFound("Payment", orderId)
+            )
+            if (payment.status !== "AUTHORIZED" || payment.authorizationReference === null) {
+              const error = `Payment is ${payment.status}, only AUTHORIZED payments can be captured`
+              yield* Console.error(`[Payment Service] ${error} for order: ${orderId}`)
+              return yield* new Conflict({ message: error })
+            }
+            // Charge the authorized amount now that the order has shipped
+            const capture = yield* paymentGateway.capture({
+              amount: payment.amount,
+              authorization: payment.authorizationReference,
+              idempotencyKey
+            }).pipe(
+              Effect.catchTag("PaymentGatewayUnavailableError", ({ message }) => new Unavailable({ message })),
+              Effect.map(Either.right),
+              Effect.catchTag("PaymentDeclinedError", (error) => Effect.succeed(Either.left(error)))
+            )
+            if (Either.isLeft(capture)) {
+              yield* Console.error(`[Payment Service] Payment capture declined: ${capture.left.reason}`)
+              return yield* new Conflict({ message: `Payment capture declined: ${capture.left.reason}` })
+            }
+            payment = yield* paymentRepository.save(
+              new Payment({
+                ...payment,
+                captureReference: capture.right.reference,
+                status: "CAPTURED"
+              })
+            )
+            yield* Console.log(`[Payment Service] Payment captured: ${orderId}`)
             return {
-              message: "Payment not found",
-              success: false
+              data: payment,
+              message: "Payment captured successfully",
+              success: true
             }
-          }
+          }).pipe(
+            withInbox({ handler: "payment.capture", idempotencyKey, schema: PaymentResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
+      ).handle("listRefunds", ({ path: { paymentId } }) =>
+        Effect.gen(function*() {
+          yield* Console.log(
+            `[Payment Service] Payment list refunds ${{ paymentId }}`
+          )
+          const paymentRefunds = yield* paymentRefundRepository.findAll({ paymentId })
           return {
-            data: payment,
+            data: paymentRefunds,
             message: "",
             success: true
           }
-        }))
+        })).handle("get", ({ path: { paymentId } }) =>
+          Effect.gen(function*() {
+            yield* Console.log(
+              `[Payment Service] Payment get ${{ paymentId }}`
+            )
+            const payment = yield* paymentRepository.findOne({ paymentId }).pipe(orNotFound("Payment", paymentId))
+            return {
+              data: payment,
+              message: "",
+              success: true
+            }
+          }))
     })
 )
 
@@ -407,9 +605,13 @@ const ApplicationLayer = PaymentHttpApiLive.pipe(
   Layer.provide(
     Layer.provideMerge(
       Layer.mergeAll(
+        InboxRepositoryLive,
         OutboxApplicationLayer,
+        makeOutboxListenerLayer("PAYMENT"),
         OutboxRepositoryLive,
+        PaymentRefundRepositoryLive,
         PaymentRepositoryLive,
+        SimulatorPaymentGatewayFromConfigLive,
         SagaLogRepositoryLive
       ),
       PgLive
@@ -0,0 +1,148 @@
+import { Config, Context, Data, Effect, Layer, Schema } from "effect"
+import type { CustomerId } from "./CustomerId.js"
+import type { IdempotencyKey } from "./IdempotencyKey.js"
+import * as Money from "./Money.js"
+import type { OrderId } from "./OrderId.js"
+
+// Provider refused the operation and will refuse it again (card declined, insufficient funds)
+export class PaymentDeclinedError extends Data.TaggedError("PaymentDeclinedError")<{
+  readonly reason: string
+}> {}
+
+// Provider could not be reached or failed transiently, the operation may be retried with the same key
+export class PaymentGatewayUnavailableError extends Data.TaggedError("PaymentGatewayUnavailableError")<{
+  readonly message: string
+}> {}
+
+export type PaymentGatewayError = PaymentDeclinedError | PaymentGatewayUnavailableError
+
+// Provider's reference of the authorization, capture, void or refund
+export interface PaymentGatewayReceipt {
+  readonly reference: string
+}
+
+// Every operation is idempotent per key, so a retried delivery does not charge twice
+export class PaymentGateway extends Context.Tag("@context/PaymentGateway")<
+  PaymentGateway,
+  {
+    // Holds the amount on the customer's card
+    readonly authorize: (request: {
+      amount: Money.Money
+      card: string | null
+      customerId: CustomerId
+      idempotencyKey: IdempotencyKey
+      orderId: OrderId
+    }) => Effect.Effect<PaymentGatewayReceipt, PaymentGatewayError>
+    // Charges the held amount, or less of it
+    readonly capture: (request: {
+      amount: Money.Money
+      authorization: string
+      idempotencyKey: IdempotencyKey
+    }) => Effect.Effect<PaymentGatewayReceipt, PaymentGatewayError>
+    // Releases the hold of an authorization that was not captured
+    readonly void: (request: {
+      authorization: string
+      idempotencyKey: IdempotencyKey
+    }) => Effect.Effect<PaymentGatewayReceipt, PaymentGatewayError>
+    // Returns the amount, or part of it, of a capture
+    readonly refund: (request: {
+      amount: Money.Money
+      capture: string
+      idempotencyKey: IdempotencyKey
+    }) => Effect.Effect<PaymentGatewayReceipt, PaymentGatewayError>
+  }
+>() {}
+
+export interface PaymentGatewaySimulatorOptions {
+  readonly declinedAmounts?: ReadonlyArray<Money.Money>
+  readonly declinedCards?: ReadonlyArray<string>
+  readonly declinedCustomers?: ReadonlyArray<string>
+}
+
+// Authorizes unless the card, amount or customer is configured to be declined, everything else succeeds.
+// References derive from the idempotency key, so the same request always gets the same answer
+export const SimulatorPaymentGatewayLive = (options: PaymentGatewaySimulatorOptions) =>
+  Layer.succeed(
+    PaymentGateway,
+    {
+      authorize: ({ amount, card, customerId, idempotencyKey }) =>
+        card !== null && options.declinedCards?.includes(card) ?
+          Effect.fail(new PaymentDeclinedError({ reason: "Card declined" })) :
+          options.declinedAmounts?.some((declinedAmount) => Money.equals(declinedAmount, amount)) ?
+          Effect.fail(new PaymentDeclinedError({ reason: `Amount ${Money.format(amount)} declined` })) :
+          options.declinedCustomers?.includes(customerId) ?
+          Effect.fail(new PaymentDeclinedError({ reason: "Customer declined" })) :
+          Effect.succeed({ reference: `sim_auth_${idempotencyKey}` }),
+      capture: ({ idempotencyKey }) => Effect.succeed({ reference: `sim_capture_${idempotencyKey}` }),
+      void: ({ idempotencyKey }) => Effect.succeed({ reference: `sim_void_${idempotencyKey}` }),
+      refund: ({ idempotencyKey }) => Effect.succeed({ reference: `sim_refund_${idempotencyKey}` })
+    }
+  )
+
+// Amount of the simulator's configuration as `<minor units> <currency>`, e.g. `1234 USD`
+const ConfigMoney = Schema.transform(
+  Schema.TemplateLiteralParser(Schema.NumberFromString, " ", Schema.String),
+  Schema.Struct({ amount: Schema.Number, currency: Schema.String }),
+  {
+    strict: true,
+    decode: ([amount, , currency]) => ({ amount, currency }),
+    encode: ({ amount, currency }) => [amount, " ", currency] as const
+  }
+).pipe(
+  Schema.compose(Money.Money)
+)
+
+// Simulator configured from the environment, lists are comma separated
+export const SimulatorPaymentGatewayFromConfigLive = Layer.unwrapEffect(
+  Effect.gen(function*() {
+    const declinedAmounts = yield* Schema.Config(
+      "PAYMENT_SIMULATOR_DECLINED_AMOUNTS",
+      Schema.split(",").pipe(Schema.compose(Schema.Array(Schema.compose(Schema.Trim, ConfigMoney))))
+    ).pipe(
+      Config.withDefault([])
+    )
+    const declinedCards = yield* Config.array(Config.string(), "PAYMENT_SIMULATOR_DECLINED_CARDS").pipe(
+      Config.withDefault([])
+    )
+    const declinedCustomers = yield* Config.array(Config.string(), "PAYMENT_SIMULATOR_DECLINED_CUSTOMERS").pipe(
+      Config.withDefault([])
+    )
+
+    return SimulatorPaymentGatewayLive({ declinedAmounts, declinedCards, declinedCustomers })
+  })
+).pipe(
+  Layer.orDie
+)
+
+// Response recorded from a provider for an operation and idempotency key
+export interface PaymentGatewayFixture {
+  readonly operation: "authorize" | "capture" | "void" | "refund"
+  readonly idempotencyKey: string
+  readonly response: PaymentGatewayReceipt | PaymentGatewayError
+}
+
+// Replays recorded responses, an operation without a fixture is a defect of the test
+export const FixturePaymentGatewayLive = (fixtures: ReadonlyArray<PaymentGatewayFixture>) => {
+  const replay = (operation: PaymentGatewayFixture["operation"], idempotencyKey: IdempotencyKey) => {
+    const fixture = fixtures.find((fixture) =>
+      fixture.operation === operation && fixture.idempotencyKey === idempotencyKey
+    )
+    if (!fixture) {
+      return Effect.dieMessage(`[PaymentGateway] No fixture for ${operation} with key: ${idempotencyKey}`)
+    }
+    return fixture.response instanceof PaymentDeclinedError ||
+        fixture.response instanceof PaymentGatewayUnavailableError ?
+      Effect.fail(fixture.response) :
+      Effect.succeed(fixture.response)
+  }
+
+  return Layer.succeed(
+    PaymentGateway,
+    {
+      authorize: ({ idempotencyKey }) => replay("authorize", idempotencyKey),
+      capture: ({ idempotencyKey }) => replay("capture", idempotencyKey),
+      void: ({ idempotencyKey }) => replay("void", idempotencyKey),
+      refund: ({ idempotencyKey }) => replay("refund", idempotencyKey)
+    }
+  )
+}
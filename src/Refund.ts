@@ -0,0 +1,29 @@
+import { Option } from "effect"
+import type { Payment, PaymentRefund } from "./Api.js"
+import * as Money from "./Money.js"
+
+// Only a captured payment has money to give back, an authorization is voided instead
+export const isCaptured = (payment: Payment) => payment.status === "CAPTURED" || payment.status === "PARTIALLY_REFUNDED"
+
+// Part of the payment the refunds made so far have not given back
+export const refundable = (payment: Payment, refunds: ReadonlyArray<PaymentRefund>) =>
+  Money.subtract(payment.amount, Money.sum(payment.amount.currency, refunds.map((refund) => refund.amount)))
+
+// Why a partial refund of `amount` cannot be made, none when it can
+export const refusePartialRefund = (
+  payment: Payment,
+  refunds: ReadonlyArray<PaymentRefund>,
+  amount: Money.Money
+): Option.Option<string> => {
+  if (!isCaptured(payment)) {
+    return Option.some(`Payment is ${payment.status}, only captured payments can be partially refunded`)
+  }
+  const remaining = refundable(payment, refunds)
+  if (amount.currency !== remaining.currency || !Money.isPositive(amount)) {
+    return Option.some(`Refund of ${Money.format(amount)} is not a positive ${remaining.currency} amount`)
+  }
+  if (Money.greaterThan(amount, remaining)) {
+    return Option.some(`Refund of ${Money.format(amount)} exceeds refundable ${Money.format(remaining)}`)
+  }
+  return Option.none()
+}
@@ -0,0 +1,69 @@
+import { InventoryReservation, type InventoryUpdateRequest } from "./Api.js"
+import { OrderSaga } from "./OrderSaga.js"
+import type { ProductId } from "./ProductId.js"
+import { SagaLog } from "./SagaLog.js"
+
+// Quantity of each product the lines order, lines of the same product are reserved together. Sorted by product,
+// the order the products' rows are locked in
+export const quantitiesByProduct = (
+  lines: InventoryUpdateRequest["lines"]
+): ReadonlyArray<{ readonly productId: ProductId; readonly quantity: number }> => {
+  const quantities = new Map<ProductId, number>()
+  for (const { productId, quantity } of lines) {
+    quantities.set(productId, (quantities.get(productId) ?? 0) + quantity)
+  }
+  return [...quantities.entries()]
+    .map(([productId, quantity]) => ({ productId, quantity }))
+    .sort((a, b) => a.productId < b.productId ? -1 : a.productId > b.productId ? 1 : 0)
+}
+
+// Stock the open reservations hold, committed ones have already left the stock on hand and released ones freed it
+export const held = (reservations: ReadonlyArray<InventoryReservation>) =>
+  reservations.reduce(
+    (total, reservation) => reservation.status === "RESERVED" ? total + reservation.quantity : total,
+    0
+  )
+
+// Sold stock leaves the stock on hand together with its reservation, only an open reservation is committed
+export const commit = (reservation: InventoryReservation) =>
+  reservation.status === "RESERVED" ? new InventoryReservation({ ...reservation, status: "COMMITTED" }) : reservation
+
+// Returns the stock to the available stock, by the compensation `releaseKey` or by expiry without one. Only an open
+// reservation is released
+export const release = (reservation: InventoryReservation, releaseKey: InventoryReservation["releaseKey"] = null) =>
+  reservation.status === "RESERVED" ?
+    new InventoryReservation({ ...reservation, releaseKey, status: "RELEASED" }) :
+    reservation
+
+// Steps the saga moves on to once its stock is reserved
+export const stepsAfterReservation = OrderSaga.stepNames.slice(OrderSaga.stepNames.indexOf("UPDATE_INVENTORY") + 1)
+
+// A saga that has moved past UPDATE_INVENTORY holds its stock for the shipment, a label may have been bought for it
+export const isHandedOver = (sagaLog: SagaLog) =>
+  sagaLog.status === "COMPLETED" ||
+  sagaLog.steps.some((step) => stepsAfterReservation.includes(step.name) && step.status !== "PENDING")
+
+// An open reservation older than `ttlMs` whose saga has stalled before shipping, mirrors `findExpired`
+export const isExpired = (
+  reservation: InventoryReservation,
+  sagaLog: SagaLog,
+  { now, ttlMs }: { readonly now: Date; readonly ttlMs: number }
+) =>
+  reservation.status === "RESERVED" && reservation.createdAt.getTime() < now.getTime() - ttlMs &&
+  !isHandedOver(sagaLog)
+
+// Saga once its expired reservation is released. A saga still running has stalled, failing the step makes the
+// orchestrator compensate the earlier steps
+export const expire = (sagaLog: SagaLog) => {
+  const stalled = sagaLog.status === "STARTED" || sagaLog.status === "IN_PROGRESS"
+  return new SagaLog({
+    ...sagaLog,
+    steps: sagaLog.steps.map((step) =>
+      step.name === "UPDATE_INVENTORY"
+        ? stalled
+          ? { ...step, status: "FAILED", error: "Reservation expired", timestamp: new Date() }
+          : { ...step, compensationStatus: "COMPLETED", status: "COMPENSATED", timestamp: new Date() }
+        : step
+    )
+  })
+}
@@ -0,0 +1,114 @@
+import { Array, Option } from "effect"
+import type { TargetEndpoint } from "./Api.js"
+import type { Outbox } from "./Outbox.js"
+
+// Request sent to the service owning a step, through the Outbox, built from the saga data `A`
+export interface Action<A> {
+  readonly payload: (saga: A) => unknown
+  readonly targetEndpoint: TargetEndpoint
+}
+
+export interface Compensation<A> extends Action<A> {
+  readonly eventType: Outbox["eventType"]
+}
+
+export interface Step<A, Name extends string = string> {
+  readonly name: Name
+  // Forward action, performed by `service`
+  readonly action: Action<A>
+  // Undoes the forward action once a later step has failed
+  readonly compensation: Compensation<A>
+  // Event written to the Outbox once the step has completed, triggering the next step
+  readonly eventType: Outbox["eventType"]
+  readonly service: Outbox["targetService"]
+}
+
+export interface SagaDefinition<A, Name extends string = string> {
+  readonly name: string
+  readonly stepNames: Array.NonEmptyReadonlyArray<Name>
+  readonly steps: Array.NonEmptyReadonlyArray<Step<A, Name>>
+}
+
+// Outbox fields needed to dispatch an action or a compensation
+export interface Dispatch {
+  readonly eventType: Outbox["eventType"]
+  readonly payload: unknown
+  readonly targetEndpoint: TargetEndpoint
+  readonly targetService: Outbox["targetService"]
+}
+
+export const make = <A>() =>
+<const Steps extends Array.NonEmptyReadonlyArray<Step<A>>>(options: {
+  readonly name: string
+  readonly steps: Steps
+}): SagaDefinition<A, Steps[number]["name"]> => ({
+  name: options.name,
+  stepNames: Array.map(options.steps, (step): Steps[number]["name"] => step.name),
+  steps: options.steps
+})
+
+export const getStep = <A, Name extends string>(
+  definition: SagaDefinition<A, Name>,
+  name: Name
+): Option.Option<Step<A, Name>> => Array.findFirst(definition.steps, (step) => step.name === name)
+
+// Step whose forward action is dispatched to `targetService` at `targetEndpoint`
+export const findStep = <A, Name extends string>(
+  definition: SagaDefinition<A, Name>,
+  { targetEndpoint, targetService }: Pick<Dispatch, "targetEndpoint" | "targetService">
+): Option.Option<Step<A, Name>> =>
+  Array.findFirst(
+    definition.steps,
+    (step) => step.service === targetService && step.action.targetEndpoint === targetEndpoint
+  )
+
+// Step whose compensation is dispatched to `targetService` at `targetEndpoint`
+export const findCompensationStep = <A, Name extends string>(
+  definition: SagaDefinition<A, Name>,
+  { targetEndpoint, targetService }: Pick<Dispatch, "targetEndpoint" | "targetService">
+): Option.Option<Step<A, Name>> =>
+  Array.findFirst(
+    definition.steps,
+    (step) => step.service === targetService && step.compensation.targetEndpoint === targetEndpoint
+  )
+
+// Step records a new saga starts with, in definition order
+export const initialSteps = <A, Name extends string>(definition: SagaDefinition<A, Name>) =>
+  definition.steps.map((step) => ({
+    compensationStatus: "PENDING" as const,
+    error: null,
+    name: step.name,
+    status: "PENDING" as const,
+    timestamp: null
+  }))
+
+// Dispatch triggering the step that follows `name`, once `name` has completed; none after the last step
+export const next = <A, Name extends string>(
+  definition: SagaDefinition<A, Name>,
+  name: Name,
+  saga: A
+): Option.Option<Dispatch> =>
+  Option.gen(function*() {
+    const index = yield* Array.findFirstIndex(definition.steps, (step) => step.name === name)
+    const step = definition.steps[index]
+    const nextStep = yield* Array.get(definition.steps, index + 1)
+    return {
+      eventType: step.eventType,
+      payload: nextStep.action.payload(saga),
+      targetEndpoint: nextStep.action.targetEndpoint,
+      targetService: nextStep.service
+    }
+  })
+
+// Dispatch undoing the step `name`
+export const compensate = <A, Name extends string>(
+  definition: SagaDefinition<A, Name>,
+  name: Name,
+  saga: A
+): Option.Option<Dispatch> =>
+  Option.map(getStep(definition, name), (step) => ({
+    eventType: step.compensation.eventType,
+    payload: step.compensation.payload(saga),
+    targetEndpoint: step.compensation.targetEndpoint,
+    targetService: step.service
+  }))
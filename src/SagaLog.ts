@@ -1,8 +1,13 @@
 import { SqlClient } from "@effect/sql"
-import { Context, Effect, Layer, Schema } from "effect"
+import { Context, Effect, Layer, Option, Predicate, Schema } from "effect"
+import { Address } from "./Address.js"
 import { CustomerId } from "./CustomerId.js"
+import { fromParseError, fromSqlError, type PersistenceError } from "./DomainError.js"
 import { IdempotencyKey } from "./IdempotencyKey.js"
-import { ProductId } from "./ProductId.js"
+import * as Money from "./Money.js"
+import { OrderLines } from "./OrderLine.js"
+import { OrderSaga } from "./OrderSaga.js"
+import * as Upcaster from "./Upcaster.js"
 
 export const SagaLogId = Schema.UUID.pipe(
   Schema.brand("SagaLogId"),
@@ -10,13 +15,74 @@ export const SagaLogId = Schema.UUID.pipe(
 )
 export type SagaLogId = typeof SagaLogId.Type
 
+const USD = Money.Currency.make("USD")
+
+// Rows stored before versioning are version 1 whatever their format,
+// so each upcaster only rewrites what is still in the format it migrates from
+export const SagaLogUpcasters = Upcaster.make({
+  name: "SagaLog",
+  upcasters: [
+    // Sagas of a single product, its price in US dollars. One unit carries the cents the total does not
+    // divide into, so that the lines add up to it
+    {
+      fromVersion: 1,
+      upcast: (document) => {
+        const { productId, quantity, ...rest } = document
+        if (
+          productId === undefined || typeof quantity !== "number" || typeof rest.totalPrice !== "number" ||
+          (Array.isArray(rest.lines) && rest.lines.length > 0)
+        ) {
+          return document
+        }
+        const total = Money.fromMajor(rest.totalPrice, USD).amount
+        const unitPrice = Math.floor(total / quantity)
+        const remainder = total - unitPrice * quantity
+        const line = (units: number, amount: number) => ({
+          productId,
+          quantity: units,
+          unitPrice: Money.toMajor(Money.make(amount, USD))
+        })
+        return {
+          ...rest,
+          lines: remainder === 0 ?
+            [line(quantity, unitPrice)] :
+            [line(quantity - 1, unitPrice), line(1, unitPrice + remainder)]
+        }
+      }
+    },
+    // Prices in US dollars before Money
+    {
+      fromVersion: 2,
+      upcast: (document) => {
+        const toMoney = (price: unknown) => typeof price === "number" ? Money.fromMajor(price, USD) : price
+        return {
+          ...document,
+          lines: Array.isArray(document.lines) ?
+            document.lines.map((line) =>
+              Predicate.isRecord(line) ? { ...line, unitPrice: toMoney(line.unitPrice) } : line
+            ) :
+            document.lines,
+          totalPrice: toMoney(document.totalPrice)
+        }
+      }
+    }
+  ],
+  versionKey: "schemaVersion"
+})
+
 const SagaLogSchema = Schema.Struct({
   id: SagaLogId,
   customerId: CustomerId,
   idempotencyKey: IdempotencyKey,
   orderId: Schema.optionalWith(Schema.NullOr(Schema.UUID), { default: () => null }),
-  productId: ProductId,
-  quantity: Schema.Number.annotations({ description: "Quantity" }),
+  lines: OrderLines,
+  // Null for sagas started before shipping addresses were captured
+  shippingAddress: Schema.optionalWith(Schema.NullOr(Address), { default: () => null }).annotations({
+    description: "Shipping Address"
+  }),
+  schemaVersion: Schema.optionalWith(Upcaster.SchemaVersion, {
+    default: () => SagaLogUpcasters.currentVersion
+  }),
   status: Schema.optionalWith(
     Schema.Literal("STARTED", "IN_PROGRESS", "COMPLETED", "FAILED", "COMPENSATING", "COMPENSATED"),
     { default: () => "STARTED" }
@@ -29,7 +95,7 @@ const SagaLogSchema = Schema.Struct({
     error: Schema.optionalWith(Schema.NullOr(Schema.String), { default: () => null }).annotations({
       description: "Error"
     }),
-    name: Schema.Literal("CREATE_ORDER", "PROCESS_PAYMENT", "UPDATE_INVENTORY", "DELIVER_ORDER")
+    name: Schema.Literal(...OrderSaga.stepNames)
       .annotations({ description: "Step Name" }),
     status: Schema.optionalWith(
       Schema.Literal("PENDING", "IN_PROGRESS", "COMPLETED", "FAILED", "COMPENSATED"),
@@ -40,7 +106,7 @@ const SagaLogSchema = Schema.Struct({
       description: "Timestamp"
     })
   })),
-  totalPrice: Schema.Number.annotations({ description: "Total Price" }),
+  totalPrice: Money.Money.annotations({ description: "Total Price" }),
   createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" })
   // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
   // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
@@ -50,17 +116,29 @@ const SagaLogSchema = Schema.Struct({
 type SagaLogSchema = typeof SagaLogSchema.Type
 
 export class SagaLog extends Schema.Class<SagaLog>("SagaLog")(SagaLogSchema) {
-  static decodeUnknown = Schema.decodeUnknown(SagaLog)
+  // Rows of earlier schema versions are upcast before they are decoded
+  static decodeUnknown = (row: unknown) =>
+    Upcaster.upcast(SagaLogUpcasters)(row).pipe(Effect.flatMap(Schema.decodeUnknown(SagaLog)))
 }
 
 export class SagaLogRepository extends Context.Tag("@context/SagaLogRepository")<
   SagaLogRepository,
   {
+    // Completes a running saga together with its last `step`, none once the saga has stopped running
+    readonly complete: (options: {
+      sagaLogId: SagaLogId
+      step: SagaLog["steps"][number]["name"]
+    }) => Effect.Effect<Option.Option<SagaLog>, PersistenceError>
+    readonly findCompensable: (options: {
+      batchSize: number
+    }) => Effect.Effect<Array<SagaLog>, PersistenceError>
     readonly findOne: (options: {
       idempotencyKey?: IdempotencyKey
+      // Locks the saga's row until the transaction ends, serializing the updates of its steps
+      lock?: boolean
       sagaLogId?: SagaLogId
-    }) => Effect.Effect<SagaLog>
-    readonly save: (data: SagaLog) => Effect.Effect<SagaLog>
+    }) => Effect.Effect<Option.Option<SagaLog>, PersistenceError>
+    readonly save: (data: SagaLog) => Effect.Effect<SagaLog, PersistenceError>
   }
 >() {}
 
@@ -97,11 +175,16 @@ BEGIN
   IF NOT EXISTS (
     SELECT 1 FROM pg_type WHERE typname = 'step_name'
   ) THEN
-    CREATE TYPE step_name AS ENUM ('CREATE_ORDER', 'PROCESS_PAYMENT', 'UPDATE_INVENTORY', 'DELIVER_ORDER');
+    CREATE TYPE step_name AS ENUM (${sql.literal(OrderSaga.stepNames.map((name) => `'${name}'`).join(", "))});
   END IF;
 END
 $$;
     `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Steps added to the saga definition after the type was created
+    yield* Effect.forEach(OrderSaga.stepNames, (name) =>
+      sql`
+ALTER TYPE step_name ADD VALUE IF NOT EXISTS ${sql.literal(`'${name}'`)};
+    `.pipe(Effect.catchTag("SqlError", Effect.die)))
     yield* sql`
 DO $$
 BEGIN
@@ -136,51 +219,155 @@ CREATE TABLE IF NOT EXISTS tbl_saga_log (
     customer_id UUID NOT NULL,
     idempotency_key UUID NOT NULL,
     order_id UUID,
-    product_id UUID NOT NULL,
-    quantity INTEGER NOT NULL,
+    lines JSONB NOT NULL,
+    shipping_address JSONB,
+    schema_version INTEGER NOT NULL DEFAULT 1,
     status saga_status NOT NULL DEFAULT 'STARTED',
     steps step_record[] NOT NULL DEFAULT '{}',
-    total_price DECIMAL(10, 2) NOT NULL,
+    total_price JSONB NOT NULL,
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
+ALTER TABLE tbl_saga_log ADD COLUMN IF NOT EXISTS shipping_address JSONB;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TABLE tbl_saga_log ADD COLUMN IF NOT EXISTS schema_version INTEGER NOT NULL DEFAULT 1;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Sagas started before multi-line orders carried a single product
+    yield* sql`
+ALTER TABLE tbl_saga_log ADD COLUMN IF NOT EXISTS lines JSONB NOT NULL DEFAULT '[]';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'tbl_saga_log' AND column_name = 'product_id'
+  ) THEN
+    -- Split like the order's lines, a remainder of cents goes to a line of one unit
+    UPDATE tbl_saga_log SET lines = CASE
+      WHEN MOD(total_price * 100, quantity) = 0 THEN jsonb_build_array(jsonb_build_object(
+        'productId', product_id,
+        'quantity', quantity,
+        'unitPrice', total_price / quantity
+      ))
+      ELSE jsonb_build_array(
+        jsonb_build_object(
+          'productId', product_id,
+          'quantity', quantity - 1,
+          'unitPrice', FLOOR(total_price * 100 / quantity) / 100
+        ),
+        jsonb_build_object(
+          'productId', product_id,
+          'quantity', 1,
+          'unitPrice', (FLOOR(total_price * 100 / quantity) + MOD(total_price * 100, quantity)) / 100
+        )
+      )
+    END;
+    ALTER TABLE tbl_saga_log DROP COLUMN product_id, DROP COLUMN quantity;
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Sagas started before Money had DECIMAL major units in US dollars
+    const usdMinorUnits = sql.literal(Money.sqlMinorUnits("'USD'"))
+    const minorUnits = sql.literal(Money.sqlMinorUnits("total_price->>'currency'"))
+    yield* sql`
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'tbl_saga_log' AND column_name = 'total_price' AND data_type = 'numeric'
+  ) THEN
+    ALTER TABLE tbl_saga_log ALTER COLUMN total_price TYPE JSONB
+      USING jsonb_build_object('amount', ROUND(total_price * ${usdMinorUnits})::bigint, 'currency', 'USD');
+    UPDATE tbl_saga_log SET lines = (
+      SELECT jsonb_agg(line || jsonb_build_object('unitPrice', jsonb_build_object(
+        'amount', ROUND((line->>'unitPrice')::numeric * ${minorUnits})::bigint,
+        'currency', total_price->>'currency'
+      )))
+      FROM jsonb_array_elements(lines) AS line
+    )
+    WHERE jsonb_array_length(lines) > 0;
+  END IF;
+END
+$$;
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
 CREATE INDEX IF NOT EXISTS idx_saga_log_idempotency_key ON tbl_saga_log(idempotency_key);
     `.pipe(Effect.catchTag("SqlError", Effect.die))
 
     return {
-      findOne: ({ idempotencyKey, sagaLogId }) =>
+      complete: ({ sagaLogId, step }) =>
+        sql`
+UPDATE tbl_saga_log SET
+    status = 'COMPLETED',
+    steps = ARRAY(
+      SELECT ROW(
+        s.compensation_status,
+        s.error,
+        s.name,
+        CASE WHEN s.name = ${step}::step_name THEN 'COMPLETED'::step_status ELSE s.status END,
+        CASE WHEN s.name = ${step}::step_name THEN CURRENT_TIMESTAMP ELSE s."timestamp" END
+      )::step_record
+      FROM unnest(steps) WITH ORDINALITY AS s(compensation_status, error, name, status, "timestamp", position)
+      ORDER BY s.position
+    )
+WHERE id = ${sagaLogId} AND status IN ('STARTED', 'IN_PROGRESS')
+RETURNING *;
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), SagaLog.decodeUnknown)),
+          Effect.catchTag("ParseError", fromParseError)
+        ),
+      findCompensable: ({ batchSize }) =>
+        sql`
+SELECT * FROM tbl_saga_log
+WHERE status = 'COMPENSATING'
+   OR (status IN ('STARTED', 'IN_PROGRESS') AND (
+       EXISTS (SELECT 1 FROM unnest(steps) AS step WHERE step.status = 'FAILED')
+    OR EXISTS (SELECT 1 FROM tbl_outbox WHERE tbl_outbox.status = 'FAILED' AND tbl_outbox.payload->>'sagaLogId' = tbl_saga_log.id::text)
+   ))
+LIMIT ${batchSize}
+`.pipe(
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((sagaLogs) => Effect.all(sagaLogs.map((sagaLog) => SagaLog.decodeUnknown(sagaLog)))),
+          Effect.catchTag("ParseError", fromParseError)
+        ),
+      findOne: ({ idempotencyKey, lock, sagaLogId }) =>
         (idempotencyKey ?
           sql`SELECT * FROM tbl_saga_log WHERE idempotency_key = ${idempotencyKey}` :
           sagaLogId ?
-          sql`SELECT * FROM tbl_saga_log WHERE id = ${sagaLogId}` :
+          lock ?
+            sql`SELECT * FROM tbl_saga_log WHERE id = ${sagaLogId} FOR UPDATE` :
+            sql`SELECT * FROM tbl_saga_log WHERE id = ${sagaLogId}` :
           sql`SELECT * FROM tbl_saga_log`)
           .pipe(
-            Effect.catchTag("SqlError", Effect.die),
-            Effect.flatMap((rows) => Effect.succeed(rows[0])),
-            Effect.flatMap((row) => SagaLog.decodeUnknown(row)),
-            Effect.catchTag("ParseError", Effect.die)
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), SagaLog.decodeUnknown)),
+            Effect.catchTag("ParseError", fromParseError)
           ),
       save: (data) =>
         sql`
-INSERT INTO tbl_inventory ${sql.insert({ ...data })}
+INSERT INTO tbl_saga_log ${sql.insert({ ...data })}
 ON CONFLICT (id) 
 DO UPDATE SET
     customer_id = EXCLUDED.customer_id,
     idempotency_key = EXCLUDED.idempotency_key,
     order_id = EXCLUDED.order_id,
-    product_id = EXCLUDED.product_id,
-    quantity = EXCLUDED.quantity,
+    lines = EXCLUDED.lines,
+    shipping_address = EXCLUDED.shipping_address,
+    schema_version = EXCLUDED.schema_version,
     status = EXCLUDED.status,
     steps = EXCLUDED.steps,
     total_price = EXCLUDED.total_price,
     created_at = EXCLUDED.created_at
 RETURNING *;
 `.pipe(
-          Effect.catchTag("SqlError", Effect.die),
-          Effect.flatMap((rows) => Effect.succeed(rows[0].createSagaLog)),
+          Effect.catchTag("SqlError", fromSqlError),
+          Effect.flatMap((rows) => Effect.succeed(rows[0])),
           Effect.flatMap((row) => SagaLog.decodeUnknown(row)),
-          Effect.catchTag("ParseError", Effect.die)
+          Effect.catchTag("ParseError", fromParseError)
         )
     }
   })
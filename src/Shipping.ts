@@ -1,53 +1,52 @@
-import {
-  HttpApi,
-  HttpApiBuilder,
-  HttpApiEndpoint,
-  HttpApiGroup,
-  HttpMiddleware,
-  HttpServer,
-  OpenApi
-} from "@effect/platform"
+import { HttpApi, HttpApiBuilder, HttpMiddleware, HttpServer, OpenApi } from "@effect/platform"
 import { NodeHttpServer, NodeRuntime } from "@effect/platform-node"
 import * as HttpApiScalar from "@effect/platform/HttpApiScalar"
 import * as HttpApiSwagger from "@effect/platform/HttpApiSwagger"
 import { SqlClient } from "@effect/sql"
 import { PgClient } from "@effect/sql-pg"
-import { Console, Context, Effect, flow, Layer, Logger, LogLevel, Redacted, Schema, String } from "effect"
+import { Console, Context, Effect, Either, flow, Layer, Logger, LogLevel, Option, Redacted, String } from "effect"
 import * as http from "node:http"
 import { v7 as uuidv7 } from "uuid"
-import { CustomerId } from "./CustomerId.js"
-import { IdempotencyKey } from "./IdempotencyKey.js"
-import { OrderId } from "./OrderId.js"
-import { ApplicationLayer as OutboxApplicationLayer } from "./Outbox.js"
-import { SagaLog, SagaLogId, SagaLogRepository, SagaLogRepositoryLive } from "./SagaLog.js"
-
-const ShippingId = Schema.UUID.pipe(
-  Schema.brand("ShippingId"),
-  Schema.annotations({ description: "Shipping Identification" })
-)
-type ShippingId = typeof ShippingId.Type
-
-const ShippingSchema = Schema.Struct({
-  id: ShippingId,
-  compensationKey: Schema.optionalWith(Schema.NullOr(IdempotencyKey), { default: () => null }),
-  customerId: CustomerId,
-  idempotencyKey: IdempotencyKey,
-  orderId: OrderId,
-  sagaLogId: SagaLogId,
-  status: Schema.optionalWith(
-    Schema.Literal("PENDING", "SHIPPED", "DELIVERED", "CANCELLED"),
-    { default: () => "PENDING" }
-  ).annotations({ description: "Status" })
-  // createdAt: Schema.optionalWith(Schema.Date, { default: () => new Date() }).annotations({ description: "Created At" }),
-  // updatedAt: Schema.Date.annotations({ description: "Updated At" }),
-  // deletedAt: Schema.NullOr(Schema.Date).annotations({ description: "Delete At" })
-}).pipe(
-  Schema.annotations({ description: "Shipping", identifier: "Shipping" })
-)
-type ShippingSchema = typeof ShippingSchema.Type
+import { CountryCode } from "./Address.js"
+import { Shipping, ShippingHttpApiGroup, ShippingId, ShippingResponse, ShippingStepResponse } from "./Api.js"
+import { buyLabel, Carrier, StubCarrierLive } from "./Carrier.js"
+import {
+  Conflict,
+  fromParseError,
+  fromSqlError,
+  orNotFound,
+  type PersistenceError,
+  Unavailable
+} from "./DomainError.js"
+import type { IdempotencyKey } from "./IdempotencyKey.js"
+import { InboxRepositoryLive, withInbox } from "./Inbox.js"
+import * as Money from "./Money.js"
+import type { OrderId } from "./OrderId.js"
+import {
+  ApplicationLayer as OutboxApplicationLayer,
+  makeListenerLayer as makeOutboxListenerLayer,
+  Outbox,
+  OutboxRepository,
+  OutboxRepositoryLive
+} from "./Outbox.js"
+import type { SagaLogId } from "./SagaLog.js"
+import { SagaLog, SagaLogRepository, SagaLogRepositoryLive } from "./SagaLog.js"
+import { canTransition, refuseTransition } from "./ShippingStatus.js"
 
-class Shipping extends Schema.Class<Shipping>("Shipping")(ShippingSchema) {
-  static decodeUnknown = Schema.decodeUnknown(Shipping)
+// Outbox events announcing that a shipment entered a status
+const shippingTransitionEvents: Partial<
+  Record<Shipping["status"], ReadonlyArray<Pick<Outbox, "eventType" | "targetEndpoint" | "targetService">>>
+> = {
+  SHIPPED: [
+    // Turn the reserved stock into sold stock
+    { eventType: "ORDER_SHIPPED", targetEndpoint: "inventory.commit", targetService: "INVENTORY" },
+    // Charge the amount authorized when the order started
+    { eventType: "ORDER_SHIPPED", targetEndpoint: "payment.capture", targetService: "PAYMENT" }
+  ],
+  // IN_TRANSIT only moves the shipment along, no service reacts to it
+  DELIVERED: [
+    { eventType: "ORDER_DELIVERED", targetEndpoint: "order.deliver", targetService: "ORDER" }
+  ]
 }
 
 class ShippingRepository extends Context.Tag("@context/ShippingRepository")<
@@ -61,8 +60,8 @@ class ShippingRepository extends Context.Tag("@context/ShippingRepository")<
       idempotencyKey?: IdempotencyKey
       sagaLogId?: SagaLogId
       shippingId?: ShippingId
-    }) => Effect.Effect<Shipping>
-    readonly save: (data: Shipping) => Effect.Effect<Shipping>
+    }) => Effect.Effect<Option.Option<Shipping>, PersistenceError>
+    readonly save: (data: Shipping) => Effect.Effect<Shipping, PersistenceError>
   }
 >() {}
 
@@ -77,21 +76,44 @@ BEGIN
   IF NOT EXISTS (
     SELECT 1 FROM pg_type WHERE typname = 'shipping_status'
   ) THEN
-    CREATE TYPE shipping_status AS ENUM ('PENDING', 'SHIPPED', 'DELIVERED', 'CANCELLED');
+    CREATE TYPE shipping_status AS ENUM ('PENDING', 'LABEL_CREATED', 'SHIPPED', 'IN_TRANSIT', 'DELIVERED', 'CANCELLED', 'RETURNED');
   END IF;
 END
 $$;
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
+ALTER TYPE shipping_status ADD VALUE IF NOT EXISTS 'LABEL_CREATED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TYPE shipping_status ADD VALUE IF NOT EXISTS 'IN_TRANSIT';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
+ALTER TYPE shipping_status ADD VALUE IF NOT EXISTS 'RETURNED';
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    yield* sql`
 CREATE TABLE IF NOT EXISTS tbl_shipping (
     id UUID PRIMARY KEY,
+    carrier VARCHAR(255),
     compensation_key UUID,
+    cost JSONB CHECK ((cost->>'amount')::bigint >= 0),
     customer_id UUID NOT NULL,
     idempotency_key UUID NOT NULL,
     order_id UUID NOT NULL,
     saga_log_id UUID NOT NULL,
-    status shipping_status NOT NULL DEFAULT 'PENDING'
+    service VARCHAR(255),
+    shipping_address JSONB,
+    status shipping_status NOT NULL DEFAULT 'PENDING',
+    tracking_number VARCHAR(255)
 );
+    `.pipe(Effect.catchTag("SqlError", Effect.die))
+    // Shipments created before carriers were integrated
+    yield* sql`
+ALTER TABLE tbl_shipping
+    ADD COLUMN IF NOT EXISTS carrier VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS cost JSONB CHECK ((cost->>'amount')::bigint >= 0),
+    ADD COLUMN IF NOT EXISTS service VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS shipping_address JSONB,
+    ADD COLUMN IF NOT EXISTS tracking_number VARCHAR(255);
     `.pipe(Effect.catchTag("SqlError", Effect.die))
     yield* sql`
 CREATE INDEX IF NOT EXISTS idx_shipping_compensation_key_order_id ON tbl_shipping(compensation_key, order_id);
@@ -114,80 +136,37 @@ CREATE INDEX IF NOT EXISTS idx_shipping_saga_log_id ON tbl_shipping(saga_log_id)
           shippingId ?
           sql`SELECT * FROM tbl_shipping WHERE id = ${shippingId} LIMIT 1` :
           sql`SELECT * FROM tbl_shipping LIMIT 1`).pipe(
-            Effect.catchTag("SqlError", Effect.die),
-            Effect.flatMap((rows) => Effect.succeed(rows[0])),
-            Effect.flatMap((row) => Shipping.decodeUnknown(row)),
-            Effect.catchTag("ParseError", Effect.die)
+            Effect.catchTag("SqlError", fromSqlError),
+            Effect.flatMap((rows) => Effect.transposeMapOption(Option.fromNullable(rows[0]), Shipping.decodeUnknown)),
+            Effect.catchTag("ParseError", fromParseError)
           ),
       save: (data) =>
         sql`
 INSERT INTO tbl_shipping ${sql.insert({ ...data })}
 ON CONFLICT (id) 
 DO UPDATE SET
+    carrier = EXCLUDED.carrier,
     compensation_key = EXCLUDED.compensation_key,
+    cost = EXCLUDED.cost,
     customer_id = EXCLUDED.customer_id,
     idempotency_key = EXCLUDED.idempotency_key,
     order_id = EXCLUDED.order_id,
     saga_log_id = EXCLUDED.saga_log_id,
-    status = EXCLUDED.status
+    service = EXCLUDED.service,
+    shipping_address = EXCLUDED.shipping_address,
+    status = EXCLUDED.status,
+    tracking_number = EXCLUDED.tracking_number
 RETURNING *;
 `.pipe(
-          Effect.catchTag("SqlError", Effect.die),
+          Effect.catchTag("SqlError", fromSqlError),
           Effect.flatMap((rows) => Effect.succeed(rows[0])),
           Effect.flatMap((row) => Shipping.decodeUnknown(row)),
-          Effect.catchTag("ParseError", Effect.die)
+          Effect.catchTag("ParseError", fromParseError)
         )
     }
   })
 )
 
-const ShippingDeliverRequest = Schema.Struct({
-  customerId: CustomerId,
-  orderId: OrderId,
-  sagaLogId: SagaLogId
-}).pipe(
-  Schema.annotations({ description: "Shipping Deliver Request", identifier: "ShippingDeliverRequest" })
-)
-type ShippingDeliverRequest = typeof ShippingDeliverRequest.Type
-
-const ShippingCancelRequest = Schema.Struct({
-  orderId: OrderId,
-  sagaLogId: SagaLogId
-}).pipe(
-  Schema.annotations({ description: "Shipping Cancel Request", identifier: "ShippingCancelRequest" })
-)
-type ShippingCancelRequest = typeof ShippingCancelRequest.Type
-
-class ShippingHttpApiGroup extends HttpApiGroup.make("shipping")
-  .add(
-    HttpApiEndpoint.post("deliver", "/deliver")
-      .addSuccess(Schema.Struct({}))
-      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(ShippingDeliverRequest)
-      .annotate(OpenApi.Description, "Shipping Start")
-      .annotate(OpenApi.Summary, "Shipping Start")
-  )
-  .add(
-    HttpApiEndpoint.post("cancel", "/cancel")
-      .addSuccess(Schema.Struct({}))
-      .setHeaders(Schema.Struct({ "idempotency-key": IdempotencyKey }))
-      .setPayload(ShippingCancelRequest)
-      .annotate(OpenApi.Description, "Shipping Refund")
-      .annotate(OpenApi.Summary, "Shipping Refund")
-  )
-  .add(
-    HttpApiEndpoint.get("get", "/:shippingId")
-      .addSuccess(Schema.Struct({}))
-      .setPath(Schema.Struct({ shippingId: ShippingId }))
-      .annotate(OpenApi.Description, "Shipping Get")
-      .annotate(OpenApi.Summary, "Shipping Get")
-  )
-  .annotate(OpenApi.Description, "Manage Shipping")
-  .annotate(OpenApi.Summary, "Manage Shipping")
-  .annotate(OpenApi.Title, "Shipping")
-  .prefix("/shipping")
-{}
-
 const Api = HttpApi.make("api")
   .add(ShippingHttpApiGroup)
   .annotate(OpenApi.Description, "Manage Shipping API")
@@ -200,49 +179,121 @@ const ShippingHttpApiLive = HttpApiBuilder.group(
   "shipping",
   (handlers) =>
     Effect.gen(function*() {
+      const carrier = yield* Carrier
+      const outboxRepository = yield* OutboxRepository
       const sagaLogRepository = yield* SagaLogRepository
       const shippingRepository = yield* ShippingRepository
+      const sql = yield* SqlClient.SqlClient
+
+      // Writes the Outbox events announcing that the shipment entered its current status
+      const writeTransitionEvents = (shipping: Shipping) =>
+        Effect.forEach(
+          shippingTransitionEvents[shipping.status] ?? [],
+          (event) =>
+            Effect.gen(function*() {
+              const outboxEntry = yield* outboxRepository.save(
+                yield* Outbox.fromEvent(shipping.orderId, {
+                  ...event,
+                  payload: { orderId: shipping.orderId, sagaLogId: shipping.sagaLogId }
+                })
+              )
+              yield* Console.log(
+                `[Shipping Service] ${event.eventType} event for ${event.targetService} written to Outbox: ${outboxEntry.id}`
+              )
+            }),
+          { discard: true }
+        )
 
       return handlers.handle(
         "deliver",
-        ({ headers: { "idempotency-key": idempotencyKey }, payload: { customerId, orderId, sagaLogId } }) =>
+        (
+          {
+            headers: { "idempotency-key": idempotencyKey },
+            payload: { customerId, orderId, sagaLogId, shippingAddress }
+          }
+        ) =>
           Effect.gen(function*() {
             yield* Console.log(
-              `[Shipping Service] Shipping deliver ${{ idempotencyKey, customerId, orderId, sagaLogId }}`
+              `[Shipping Service] Shipping deliver ${{
+                idempotencyKey,
+                customerId,
+                orderId,
+                sagaLogId,
+                shippingAddress
+              }}`
             )
-            // Check if shipping already created
-            const existingShipping = yield* shippingRepository.findOne({ idempotencyKey })
-            if (existingShipping) {
-              yield* Console.log(`[Shipping Service] Shipping already created with key: ${idempotencyKey}`)
+            // Get saga log to track progress
+            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId }).pipe(orNotFound("SagaLog", sagaLogId))
+            if (!shippingAddress) {
+              const error = "Shipping address missing"
+              yield* Console.log(`[Shipping Service] ${error}: ${orderId}`)
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "DELIVER_ORDER"
+                    ? { ...step, status: "FAILED", error }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
               return {
-                data: existingShipping,
-                message: "Shipping already created",
-                sagaLogId,
-                success: true
+                error,
+                message: "Error delivering order",
+                success: false
               }
             }
-            // Get saga log to track progress
-            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId })
-            if (!sagaLog) {
-              // throw new Error("SagaLog not found")
+            // Buy the label of the cheapest rate. An address the carrier does not serve fails the step
+            // while an unavailable carrier fails the request, so that the event is retried with the same key
+            const label = yield* buyLabel(carrier, { destination: shippingAddress, idempotencyKey, orderId }).pipe(
+              Effect.catchTag("CarrierUnavailableError", ({ message }) => new Unavailable({ message })),
+              Effect.map(Either.right),
+              Effect.catchTag("CarrierAddressRejectedError", (error) => Effect.succeed(Either.left(error)))
+            )
+            if (Either.isLeft(label)) {
+              const error = `Carrier rejected address: ${label.left.reason}`
+              yield* Console.log(`[Shipping Service] ${error}`)
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "DELIVER_ORDER"
+                    ? { ...step, status: "FAILED", error }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
               return {
-                message: "SagaLog not found",
+                error,
+                message: "Error delivering order",
                 success: false
               }
             }
-            // Execute shipping creation and saga completion without transaction
+            const { rate, trackingNumber } = label.right
+            // Execute shipping creation and the saga update in a single transaction
             // try {
+            // The label is bought, the carrier's tracking events move the shipment along from there
             const shipping = new Shipping({
               id: ShippingId.make(uuidv7()),
+              carrier: rate.carrier,
+              cost: rate.cost,
               idempotencyKey,
               orderId,
               customerId,
-              status: "SHIPPED",
-              sagaLogId
+              service: rate.service,
+              shippingAddress,
+              status: "LABEL_CREATED",
+              sagaLogId,
+              trackingNumber
             })
             yield* shippingRepository.save(shipping)
-            yield* Console.log(`[Shipping Service] Shipping created: ${orderId}`)
-            // Update saga log
+            yield* Console.log(
+              `[Shipping Service] Shipping created: ${orderId}, ${rate.carrier} ${rate.service} ${trackingNumber} for ${
+                Money.format(rate.cost)
+              }`
+            )
+            // Update saga log. The saga completes once the shipment has SHIPPED, until then the reservation is
+            // kept from expiring and a compensating saga cancels the label
             const shippingStep = sagaLog.steps.find((s) => s.name === "DELIVER_ORDER")
             if (shippingStep) {
               sagaLog = new SagaLog({
@@ -254,49 +305,28 @@ const ShippingHttpApiLive = HttpApiBuilder.group(
                 )
               })
               yield* sagaLogRepository.save(sagaLog)
-              yield* Console.log(`[Shipping Service] Order delivered: ${orderId}`)
-              // Mark saga as completed
-              sagaLog = new SagaLog({
-                ...sagaLog,
-                status: "COMPLETED",
-                steps: sagaLog.steps.map((step) =>
-                  step.name === "DELIVER_ORDER"
-                    ? { ...step, status: "COMPLETED" }
-                    : step
-                )
-              })
-              yield* sagaLogRepository.save(sagaLog)
-              yield* Console.log(`[Shipping Service] Saga COMPLETED: ${sagaLogId}\n`)
+              yield* Console.log(`[Shipping Service] Label created, awaiting shipment: ${orderId}`)
             } else {
               console.error(`[Shipping Service] DELIVER_ORDER step not found in saga`)
             }
-            return shipping
             // } catch (innerError) {
             //   throw innerError
             // }
-            // return {
-            //   message: "Order shipped successfully and saga completed",
-            //   sagaLogId,
-            //   success: true
-            // }
-          })
+            return {
+              data: shipping,
+              message: "Shipping label created, the saga completes once shipped",
+              success: true
+            }
+          }).pipe(
+            withInbox({ handler: "shipping.deliver", idempotencyKey, schema: ShippingStepResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
       ).handle(
         "cancel",
         ({ headers: { "idempotency-key": idempotencyKey }, payload: { orderId, sagaLogId } }) =>
           Effect.gen(function*() {
             yield* Console.log(`[Shipping Service] Shipping cancel ${{ idempotencyKey, orderId, sagaLogId }}`)
-            // Check if already cancelled
-            let shipping = yield* shippingRepository.findOne({
-              compensationOrder: { compensationKey: idempotencyKey, orderId }
-            })
-            if (shipping) {
-              console.log(`[Shipping Service] Shipping already cancelled with key: ${idempotencyKey}`)
-              return {
-                data: shipping,
-                message: "Shipping already cancelled",
-                success: true
-              }
-            }
             // shipping = await Shipping.findOneAndUpdate(
             //   { orderId, sagaLogId },
             //   {
@@ -305,15 +335,46 @@ const ShippingHttpApiLive = HttpApiBuilder.group(
             //   },
             //   { new: true }
             // )
+            // Get saga log to track compensation progress
+            let sagaLog = yield* sagaLogRepository.findOne({ sagaLogId }).pipe(orNotFound("SagaLog", sagaLogId))
             // TODO: test without orderId
-            shipping = yield* shippingRepository.findOne({ sagaLogId })
-            if (!shipping) {
+            const existingShipping = yield* shippingRepository.findOne({ sagaLogId })
+            if (Option.isNone(existingShipping)) {
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "DELIVER_ORDER"
+                    ? { ...step, compensationStatus: "FAILED", error: "Shipping not found" }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
               // throw new Error("Shipping not found")
               return {
                 message: "Shipping not found",
                 success: false
               }
             }
+            let shipping = existingShipping.value
+            // A shipment that has left the warehouse can no longer be cancelled
+            if (!canTransition(shipping.status, "CANCELLED")) {
+              const error = `Shipping is ${shipping.status}, cannot be cancelled`
+              // Update saga log
+              sagaLog = new SagaLog({
+                ...sagaLog,
+                steps: sagaLog.steps.map((step) =>
+                  step.name === "DELIVER_ORDER"
+                    ? { ...step, compensationStatus: "FAILED", error }
+                    : step
+                )
+              })
+              yield* sagaLogRepository.save(sagaLog)
+              return {
+                message: error,
+                success: false
+              }
+            }
             shipping = new Shipping({
               ...shipping,
               compensationKey: idempotencyKey,
@@ -321,26 +382,90 @@ const ShippingHttpApiLive = HttpApiBuilder.group(
             })
             yield* shippingRepository.save(shipping)
             yield* Console.log(`[Shipping Service] Shipping cancelled: ${orderId}`)
+            // Update saga log
+            sagaLog = new SagaLog({
+              ...sagaLog,
+              steps: sagaLog.steps.map((step) =>
+                step.name === "DELIVER_ORDER"
+                  ? { ...step, compensationStatus: "COMPLETED", status: "COMPENSATED", timestamp: new Date() }
+                  : step
+              )
+            })
+            yield* sagaLogRepository.save(sagaLog)
 
             return {
               data: shipping,
               message: "Shipping cancelled successfully",
               success: true
             }
-          })
+          }).pipe(
+            withInbox({ handler: "shipping.cancel", idempotencyKey, schema: ShippingStepResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
+      ).handle(
+        "track",
+        ({ headers: { "idempotency-key": idempotencyKey }, path: { shippingId }, payload: { description, status } }) =>
+          Effect.gen(function*() {
+            yield* Console.log(
+              `[Shipping Service] Shipping track ${{ idempotencyKey, description, shippingId, status }}`
+            )
+            let shipping = yield* shippingRepository.findOne({ shippingId }).pipe(orNotFound("Shipping", shippingId))
+            // Carriers repeat scans, a status the shipment is already in changes nothing
+            if (shipping.status === status) {
+              return {
+                data: shipping,
+                message: `Shipping already ${status}`,
+                success: true
+              }
+            }
+            const sagaLog = yield* sagaLogRepository.findOne({ sagaLogId: shipping.sagaLogId }).pipe(
+              orNotFound("SagaLog", shipping.sagaLogId)
+            )
+            const refused = refuseTransition(shipping.status, status, sagaLog.status)
+            if (Option.isSome(refused)) {
+              yield* Console.error(`[Shipping Service] ${refused.value}: ${shippingId}`)
+              return yield* new Conflict({ message: refused.value })
+            }
+            shipping = yield* shippingRepository.save(
+              new Shipping({
+                ...shipping,
+                status
+              })
+            )
+            yield* Console.log(`[Shipping Service] Shipping ${status}: ${shippingId}`)
+            // The order has left the warehouse, its reservation is being committed and its payment captured.
+            // A saga compensated since it was read is no longer completed, nor are the events written
+            if (status === "SHIPPED") {
+              const completed = yield* sagaLogRepository.complete({
+                sagaLogId: shipping.sagaLogId,
+                step: "DELIVER_ORDER"
+              })
+              if (Option.isNone(completed)) {
+                const error = `Saga is no longer running, the shipment cannot ship`
+                yield* Console.error(`[Shipping Service] ${error}: ${shippingId}`)
+                return yield* new Conflict({ message: error })
+              }
+              yield* Console.log(`[Shipping Service] Saga COMPLETED: ${shipping.sagaLogId}\n`)
+            }
+            yield* writeTransitionEvents(shipping)
+
+            return {
+              data: shipping,
+              message: `Shipping ${status}`,
+              success: true
+            }
+          }).pipe(
+            withInbox({ handler: "shipping.track", idempotencyKey, schema: ShippingResponse }),
+            sql.withTransaction,
+            Effect.catchTag("SqlError", fromSqlError)
+          )
       ).handle("get", ({ path: { shippingId } }) =>
         Effect.gen(function*() {
           yield* Console.log(
             `[Shipping Service] Shipping get ${{ shippingId }}`
           )
-          const shipping = yield* shippingRepository.findOne({ shippingId })
-          if (!shipping) {
-            // throw new Error("Shipping not found")
-            return {
-              message: "Shipping not found",
-              success: false
-            }
-          }
+          const shipping = yield* shippingRepository.findOne({ shippingId }).pipe(orNotFound("Shipping", shippingId))
 
           return {
             data: shipping,
@@ -363,9 +488,13 @@ const ApplicationLayer = ShippingHttpApiLive.pipe(
   Layer.provide(
     Layer.provideMerge(
       Layer.mergeAll(
+        InboxRepositoryLive,
         OutboxApplicationLayer,
+        makeOutboxListenerLayer("SHIPPING"),
+        OutboxRepositoryLive,
         SagaLogRepositoryLive,
-        ShippingRepositoryLive
+        ShippingRepositoryLive,
+        StubCarrierLive({ currency: Money.Currency.make("USD"), origin: CountryCode.make("US") })
       ),
       PgLive
     )
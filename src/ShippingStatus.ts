@@ -0,0 +1,34 @@
+import { Option } from "effect"
+import type { Shipping } from "./Api.js"
+import type { SagaLog } from "./SagaLog.js"
+
+// Legal shipment transitions, CANCELLED and RETURNED are final. Nothing refunds the payment or restocks the goods
+// of a returned shipment yet, so no shipment moves to RETURNED; it is kept for shipments returned before
+export const shippingTransitions: Record<Shipping["status"], ReadonlyArray<Shipping["status"]>> = {
+  PENDING: ["LABEL_CREATED", "CANCELLED"],
+  LABEL_CREATED: ["SHIPPED", "CANCELLED"],
+  SHIPPED: ["IN_TRANSIT", "DELIVERED"],
+  IN_TRANSIT: ["DELIVERED"],
+  DELIVERED: [],
+  CANCELLED: [],
+  RETURNED: []
+}
+
+export const canTransition = (from: Shipping["status"], to: Shipping["status"]) =>
+  shippingTransitions[from].includes(to)
+
+// Why a shipment cannot move from `from` to `to`, none when it can. Shipping completes the saga,
+// so a saga that has stopped running, such as a compensated one, refuses it
+export const refuseTransition = (
+  from: Shipping["status"],
+  to: Shipping["status"],
+  sagaStatus: SagaLog["status"]
+): Option.Option<string> => {
+  if (!canTransition(from, to)) {
+    return Option.some(`Shipping cannot move from ${from} to ${to}`)
+  }
+  if (to === "SHIPPED" && sagaStatus !== "STARTED" && sagaStatus !== "IN_PROGRESS") {
+    return Option.some(`Saga is ${sagaStatus}, the shipment cannot ship`)
+  }
+  return Option.none()
+}
@@ -0,0 +1,69 @@
+import { Effect, ParseResult, Predicate, Schema } from "effect"
+
+export const SchemaVersion = Schema.Int.pipe(
+  Schema.greaterThanOrEqualTo(1),
+  Schema.annotations({ description: "Schema Version" })
+)
+export type SchemaVersion = typeof SchemaVersion.Type
+
+// Stored document, as read from its row
+export type Document = Readonly<Record<string, unknown>>
+
+// Rewrites a document of `fromVersion` into the format of the version after it
+export interface Upcaster {
+  readonly fromVersion: SchemaVersion
+  readonly upcast: (document: Document) => Document
+}
+
+export interface UpcasterRegistry {
+  readonly name: string
+  readonly currentVersion: SchemaVersion
+  readonly upcasters: ReadonlyArray<Upcaster>
+  // Field of the document holding its version, documents stored before versioning are version 1
+  readonly versionKey: string
+}
+
+// Upcasters are listed from version 1 on, one per version; the version after the last one is current.
+// A gap or a duplicate in the list is a defect of the definition
+export const make = (options: {
+  readonly name: string
+  readonly upcasters: ReadonlyArray<Upcaster>
+  readonly versionKey: string
+}): UpcasterRegistry => {
+  options.upcasters.forEach((upcaster, index) => {
+    if (upcaster.fromVersion !== index + 1) {
+      throw new Error(
+        `[${options.name}] Upcaster ${index} migrates version ${upcaster.fromVersion}, expected ${index + 1}`
+      )
+    }
+  })
+  return { ...options, currentVersion: options.upcasters.length + 1 }
+}
+
+// Document migrated to the current version. A version above the current one was written by a newer
+// deployment and cannot be read; it fails like a row that does not match its schema
+export const upcast =
+  (registry: UpcasterRegistry) => (input: unknown): Effect.Effect<unknown, ParseResult.ParseError> =>
+    Effect.suspend(() => {
+      // Anything but a document is left to the schema to reject
+      if (!Predicate.isRecord(input)) {
+        return Effect.succeed(input)
+      }
+      const version = input[registry.versionKey] ?? 1
+      if (!Schema.is(SchemaVersion)(version) || version > registry.currentVersion) {
+        return Effect.fail(ParseResult.parseError(
+          new ParseResult.Type(
+            SchemaVersion.ast,
+            version,
+            `${registry.name} schema version ${version} is unknown, the current one is ${registry.currentVersion}`
+          )
+        ))
+      }
+      return Effect.succeed({
+        ...registry.upcasters.slice(version - 1).reduce<Document>(
+          (document, upcaster) => upcaster.upcast(document),
+          input
+        ),
+        [registry.versionKey]: registry.currentVersion
+      })
+    })
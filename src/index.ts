@@ -1,32 +1,83 @@
 
+export * as Address from "./Address.js"
+
+
+export * as Api from "./Api.js"
+
+
+export * as Carrier from "./Carrier.js"
+
+
+export * as Catalog from "./Catalog.js"
+
+
+export * as Compensation from "./Compensation.js"
+
+
 export * as CustomerId from "./CustomerId.js"
 
 
+export * as DomainError from "./DomainError.js"
+
+
 export * as IdempotencyKey from "./IdempotencyKey.js"
 
 
+export * as Inbox from "./Inbox.js"
+
+
 export * as Inventory from "./Inventory.js"
 
 
 export * as InventoryId from "./InventoryId.js"
 
 
+export * as Money from "./Money.js"
+
+
 export * as Order from "./Order.js"
 
 
 export * as OrderId from "./OrderId.js"
 
 
+export * as OrderLine from "./OrderLine.js"
+
+
+export * as OrderSaga from "./OrderSaga.js"
+
+
 export * as Outbox from "./Outbox.js"
 
 
+export * as OutboxTransport from "./OutboxTransport.js"
+
+
 export * as Payment from "./Payment.js"
 
 
+export * as PaymentGateway from "./PaymentGateway.js"
+
+
 export * as ProductId from "./ProductId.js"
 
 
+export * as Refund from "./Refund.js"
+
+
+export * as Reservation from "./Reservation.js"
+
+
+export * as SagaDefinition from "./SagaDefinition.js"
+
+
 export * as SagaLog from "./SagaLog.js"
 
 
 export * as Shipping from "./Shipping.js"
+
+
+export * as ShippingStatus from "./ShippingStatus.js"
+
+
+export * as Upcaster from "./Upcaster.js"
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer } from "effect"
+import { type Address, CountryCode } from "../src/Address.js"
+import {
+  buyLabel,
+  Carrier,
+  CarrierAddressRejectedError,
+  type CarrierRate,
+  selectRate,
+  StubCarrierLive
+} from "../src/Carrier.js"
+import { IdempotencyKey } from "../src/IdempotencyKey.js"
+import * as Money from "../src/Money.js"
+import { OrderId } from "../src/OrderId.js"
+
+const USD = Money.Currency.make("USD")
+
+const destination: Address = {
+  name: "Ada Lovelace",
+  line1: "12 Main Street",
+  line2: null,
+  city: "Springfield",
+  region: "IL",
+  postalCode: "62701",
+  country: CountryCode.make("US")
+}
+
+const label = {
+  destination,
+  idempotencyKey: IdempotencyKey.make("01920000-0000-7000-8000-000000000005"),
+  orderId: OrderId.make("01920000-0000-7000-8000-000000000003")
+}
+
+const buy = (request: Partial<typeof label> = {}) =>
+  Effect.flatMap(Carrier, (carrier) => buyLabel(carrier, { ...label, ...request }))
+
+const rate = (service: string, amount: number, estimatedDays: number): CarrierRate => ({
+  carrier: "TEST",
+  cost: Money.make(amount, USD),
+  estimatedDays,
+  service
+})
+
+describe("selectRate", () => {
+  it("selects the cheapest rate", () => {
+    const ground = rate("GROUND", 599, 5)
+
+    expect(selectRate([rate("EXPRESS", 1499, 1), ground, rate("PRIORITY", 999, 2)])).toBe(ground)
+  })
+
+  it("breaks a tie on cost with the fastest rate", () => {
+    const priority = rate("PRIORITY", 599, 2)
+
+    expect(selectRate([rate("GROUND", 599, 5), priority, rate("ECONOMY", 599, 7)])).toBe(priority)
+  })
+
+  it("keeps the first of equally cheap and fast rates", () => {
+    const ground = rate("GROUND", 599, 5)
+
+    expect(selectRate([ground, rate("SAVER", 599, 5)])).toBe(ground)
+  })
+
+  it("selects nothing without a rate", () => {
+    expect(selectRate([])).toBeUndefined()
+  })
+})
+
+describe("buyLabel", () => {
+  const stub = StubCarrierLive({
+    currency: USD,
+    origin: CountryCode.make("US"),
+    unservedCountries: [CountryCode.make("AQ")]
+  })
+
+  it.effect("buys the ground label with a tracking number derived from the idempotency key", () =>
+    Effect.gen(function*() {
+      expect(yield* buy()).toEqual({
+        rate: { carrier: "STUB", cost: Money.make(599, USD), estimatedDays: 5, service: "GROUND" },
+        trackingNumber: `STUB${label.idempotencyKey}`
+      })
+    }).pipe(Effect.provide(stub)))
+
+  it.effect("charges twice as much and takes twice as long abroad", () =>
+    Effect.gen(function*() {
+      const { rate } = yield* buy({ destination: { ...destination, country: CountryCode.make("CA") } })
+
+      expect(rate).toMatchObject({ cost: Money.make(1198, USD), estimatedDays: 10 })
+    }).pipe(Effect.provide(stub)))
+
+  it.effect("refuses a country the carrier does not serve", () =>
+    Effect.gen(function*() {
+      expect(yield* Effect.flip(buy({ destination: { ...destination, country: CountryCode.make("AQ") } }))).toEqual(
+        new CarrierAddressRejectedError({ reason: "No service to AQ" })
+      )
+    }).pipe(Effect.provide(stub)))
+
+  it.effect("refuses a destination the carrier quotes no rate to", () => {
+    let labels = 0
+    const unrated = Layer.succeed(Carrier, {
+      quote: () => Effect.succeed([]),
+      createLabel: () =>
+        Effect.sync(() => {
+          labels += 1
+          return { trackingNumber: "UNRATED" }
+        })
+    })
+
+    return Effect.gen(function*() {
+      expect(yield* Effect.flip(buy())).toEqual(new CarrierAddressRejectedError({ reason: "No rate to US" }))
+      expect(labels).toBe(0)
+    }).pipe(Effect.provide(unrated))
+  })
+})
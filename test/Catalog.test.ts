@@ -0,0 +1,118 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Either, Option } from "effect"
+import { effectivePrice, priceLines, ProductPrice, ProductPriceId } from "../src/Catalog.js"
+import { Conflict, NotFound } from "../src/DomainError.js"
+import * as Money from "../src/Money.js"
+import { ProductId } from "../src/ProductId.js"
+
+const USD = Money.Currency.make("USD")
+const EUR = Money.Currency.make("EUR")
+const productId = ProductId.make("01920000-0000-7000-8000-000000000004")
+const otherProductId = ProductId.make("01920000-0000-7000-8000-000000000006")
+const at = new Date("2026-10-19T12:00:00Z")
+
+const productPrice = (
+  id: string,
+  price: Money.Money,
+  effectiveFrom: Date,
+  effectiveTo: Date | null = null
+) =>
+  new ProductPrice({
+    id: ProductPriceId.make(id),
+    effectiveFrom,
+    effectiveTo,
+    price,
+    productId,
+    createdAt: effectiveFrom
+  })
+
+const lastYear = productPrice(
+  "01920000-0000-7000-8000-000000000601",
+  Money.make(2000, USD),
+  new Date("2025-10-19T00:00:00Z"),
+  new Date("2026-10-01T00:00:00Z")
+)
+const current = productPrice(
+  "01920000-0000-7000-8000-000000000602",
+  Money.make(2500, USD),
+  new Date("2026-10-01T00:00:00Z")
+)
+const scheduled = productPrice(
+  "01920000-0000-7000-8000-000000000603",
+  Money.make(3000, USD),
+  new Date("2026-11-01T00:00:00Z")
+)
+
+describe("effectivePrice", () => {
+  it("picks the price in effect at the given time", () => {
+    const productPrices = [scheduled, current, lastYear]
+
+    expect(effectivePrice(productPrices, at)).toEqual(Option.some(current))
+    expect(effectivePrice(productPrices, new Date("2026-06-01T00:00:00Z"))).toEqual(Option.some(lastYear))
+    expect(effectivePrice(productPrices, new Date("2026-11-01T00:00:00Z"))).toEqual(Option.some(scheduled))
+  })
+
+  it("lets the latest effective price win when prices overlap", () => {
+    const override = productPrice(
+      "01920000-0000-7000-8000-000000000604",
+      Money.make(2200, USD),
+      new Date("2026-10-15T00:00:00Z")
+    )
+
+    expect(effectivePrice([current, override], at)).toEqual(Option.some(override))
+  })
+
+  it("has no price before the first or after the last one ends", () => {
+    expect(effectivePrice([lastYear], new Date("2025-01-01T00:00:00Z"))).toEqual(Option.none())
+    expect(effectivePrice([lastYear], at)).toEqual(Option.none())
+  })
+})
+
+describe("priceLines", () => {
+  const lines = [{ productId, quantity: 2 }] as const
+
+  it("prices the lines at the price in effect at order time", () => {
+    const priced = priceLines(lines, [[scheduled, current, lastYear]], {
+      at,
+      expectedTotalPrice: Money.make(5000, USD)
+    })
+
+    expect(priced).toEqual(
+      Either.right({ lines: [{ productId, quantity: 2, unitPrice: current.price }], totalPrice: Money.make(5000, USD) })
+    )
+  })
+
+  it("refuses a total in another currency than the catalog price", () => {
+    const priced = priceLines(lines, [[current]], { at, expectedTotalPrice: Money.make(5000, EUR) })
+
+    expect(priced).toEqual(
+      Either.left(new Conflict({ message: "Total price in EUR, the products are priced in USD" }))
+    )
+  })
+
+  it("refuses a total priced at another time than the order", () => {
+    const priced = priceLines(lines, [[current, lastYear]], { at, expectedTotalPrice: Money.make(4000, USD) })
+
+    expect(priced).toEqual(
+      Either.left(new Conflict({ message: "Total price 40.00 USD does not match catalog total 50.00 USD" }))
+    )
+  })
+
+  it("refuses products priced in several currencies", () => {
+    const euroPrice = new ProductPrice({ ...current, price: Money.make(2500, EUR), productId: otherProductId })
+    const priced = priceLines([...lines, { productId: otherProductId, quantity: 1 }], [[current], [euroPrice]], {
+      at,
+      expectedTotalPrice: Money.make(7500, USD)
+    })
+
+    expect(priced).toEqual(Either.left(new Conflict({ message: "Products priced in several currencies: USD, EUR" })))
+  })
+
+  it("refuses products without a price at order time", () => {
+    const priced = priceLines(lines, [[scheduled]], { at, expectedTotalPrice: Money.make(5000, USD) })
+
+    expect(priced).toEqual(
+      Either.left(new NotFound({ entity: "ProductPrice", message: `No price for products: ${productId}` }))
+    )
+  })
+})
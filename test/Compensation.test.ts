@@ -0,0 +1,118 @@
+import { describe, expect, it } from "@effect/vitest"
+import { CompensationPlan, failUndelivered, planCompensation } from "../src/Compensation.js"
+import { Outbox, OutboxId } from "../src/Outbox.js"
+import type { SagaLog } from "../src/SagaLog.js"
+
+type Step = SagaLog["steps"][number]
+
+const step = (
+  name: Step["name"],
+  status: Step["status"],
+  compensationStatus: Step["compensationStatus"] = "PENDING"
+): Step => ({ compensationStatus, error: null, name, status, timestamp: null })
+
+describe("planCompensation", () => {
+  it("undoes the latest completed step first", () => {
+    const steps = [
+      step("CREATE_ORDER", "COMPLETED"),
+      step("PROCESS_PAYMENT", "COMPLETED"),
+      step("UPDATE_INVENTORY", "FAILED"),
+      step("DELIVER_ORDER", "PENDING")
+    ]
+
+    expect(planCompensation(steps)).toEqual(CompensationPlan.Compensate({ step: steps[1] }))
+  })
+
+  it("walks back to the first step once the later ones are compensated", () => {
+    const steps = [
+      step("CREATE_ORDER", "COMPLETED"),
+      step("PROCESS_PAYMENT", "COMPLETED", "COMPLETED"),
+      step("UPDATE_INVENTORY", "FAILED")
+    ]
+
+    expect(planCompensation(steps)).toEqual(CompensationPlan.Compensate({ step: steps[0] }))
+  })
+
+  it("cancels the label of a shipment that has not shipped", () => {
+    const steps = [
+      step("CREATE_ORDER", "COMPLETED"),
+      step("PROCESS_PAYMENT", "COMPLETED"),
+      step("UPDATE_INVENTORY", "FAILED"),
+      step("DELIVER_ORDER", "IN_PROGRESS")
+    ]
+
+    expect(planCompensation(steps)).toEqual(CompensationPlan.Compensate({ step: steps[3] }))
+  })
+
+  it("waits for the step being compensated", () => {
+    const steps = [
+      step("CREATE_ORDER", "COMPLETED"),
+      step("PROCESS_PAYMENT", "COMPLETED", "IN_PROGRESS"),
+      step("UPDATE_INVENTORY", "FAILED")
+    ]
+
+    expect(planCompensation(steps)).toEqual(CompensationPlan.Waiting())
+  })
+
+  it("is compensated once every completed step is", () => {
+    const steps = [
+      step("CREATE_ORDER", "COMPLETED", "COMPLETED"),
+      step("PROCESS_PAYMENT", "FAILED"),
+      step("UPDATE_INVENTORY", "PENDING")
+    ]
+
+    expect(planCompensation(steps)).toEqual(CompensationPlan.Compensated())
+  })
+
+  it("fails once a compensation has failed", () => {
+    const steps = [
+      step("CREATE_ORDER", "COMPLETED"),
+      step("PROCESS_PAYMENT", "COMPLETED", "FAILED"),
+      step("UPDATE_INVENTORY", "FAILED")
+    ]
+
+    expect(planCompensation(steps)).toEqual(CompensationPlan.Failed())
+  })
+})
+
+describe("failUndelivered", () => {
+  const refund = (status: Outbox["status"]) =>
+    new Outbox({
+      id: OutboxId.make("01920000-0000-7000-8000-000000000201"),
+      aggregateId: "01920000-0000-7000-8000-000000000003",
+      eventType: "PAYMENT_COMPENSATED",
+      lastError: status === "REJECTED" ? null : "Gateway timeout",
+      payload: { orderId: "01920000-0000-7000-8000-000000000003", sagaLogId: "01920000-0000-7000-8000-000000000001" },
+      status,
+      targetEndpoint: "payment.refund",
+      targetService: "PAYMENT"
+    })
+
+  it("fails a compensation the Outbox gave up delivering", () => {
+    const steps = [
+      step("CREATE_ORDER", "COMPLETED"),
+      step("PROCESS_PAYMENT", "COMPLETED", "IN_PROGRESS"),
+      step("UPDATE_INVENTORY", "FAILED")
+    ]
+
+    const outcomes = [["DEAD_LETTERED", "Gateway timeout"], ["REJECTED", "Compensation REJECTED"]] as const
+
+    for (const [status, error] of outcomes) {
+      const failed = failUndelivered(steps, [refund(status)])
+
+      expect(failed[1]).toMatchObject({ compensationStatus: "FAILED", error })
+      expect(planCompensation(failed)).toEqual(CompensationPlan.Failed())
+    }
+  })
+
+  it("leaves the steps whose compensation is not the undelivered event", () => {
+    const steps = [
+      step("CREATE_ORDER", "COMPLETED", "IN_PROGRESS"),
+      step("PROCESS_PAYMENT", "COMPLETED", "COMPLETED"),
+      step("UPDATE_INVENTORY", "FAILED")
+    ]
+
+    expect(failUndelivered(steps, [refund("DEAD_LETTERED")])).toEqual(steps)
+    expect(planCompensation(failUndelivered(steps, [refund("DEAD_LETTERED")]))).toEqual(CompensationPlan.Waiting())
+  })
+})
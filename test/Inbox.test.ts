@@ -0,0 +1,80 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Layer, Option, Schema } from "effect"
+import { IdempotencyKey } from "../src/IdempotencyKey.js"
+import { type Inbox, InboxRepository, withInbox } from "../src/Inbox.js"
+
+const idempotencyKey = IdempotencyKey.make("01920000-0000-7000-8000-000000000501")
+
+const StepResponse = Schema.Struct({
+  message: Schema.String,
+  success: Schema.Boolean,
+  takenAt: Schema.Date
+})
+
+// Inbox rows kept in memory, claimed rows stay claimed like committed ones
+const InMemoryInboxRepositoryLive = Layer.sync(InboxRepository, () => {
+  const rows = new Map<string, Inbox | null>()
+  const key = (options: { handler: string; idempotencyKey: IdempotencyKey }) =>
+    `${options.handler}:${options.idempotencyKey}`
+  return {
+    claim: (options) =>
+      Effect.sync(() => {
+        if (rows.has(key(options))) {
+          return false
+        }
+        rows.set(key(options), null)
+        return true
+      }),
+    findOne: (options) => Effect.sync(() => Option.fromNullable(rows.get(key(options)))),
+    save: (data) =>
+      Effect.sync(() => {
+        rows.set(key(data), data)
+        return data
+      })
+  }
+})
+
+describe("withInbox", () => {
+  it.effect("returns the stored response to a redelivered key without running the handler again", () =>
+    Effect.gen(function*() {
+      let runs = 0
+      const handle = Effect.sync(() => {
+        runs += 1
+        return { message: `Run ${runs}`, success: true, takenAt: new Date("2026-10-19T12:00:00Z") }
+      }).pipe(withInbox({ handler: "inventory.update", idempotencyKey, schema: StepResponse }))
+
+      const first = yield* handle
+      const redelivered = yield* handle
+
+      expect(runs).toBe(1)
+      expect(redelivered).toEqual(first)
+      expect(redelivered.takenAt).toBeInstanceOf(Date)
+    }).pipe(Effect.provide(InMemoryInboxRepositoryLive)))
+
+  it.effect("runs the handler once per handler and key", () =>
+    Effect.gen(function*() {
+      const runs: Array<string> = []
+      const handle = (handler: string) =>
+        Effect.sync(() => {
+          runs.push(handler)
+          return { message: handler, success: true, takenAt: new Date("2026-10-19T12:00:00Z") }
+        }).pipe(withInbox({ handler, idempotencyKey, schema: StepResponse }))
+
+      yield* handle("inventory.update")
+      yield* handle("inventory.compensate")
+      yield* handle("inventory.update")
+
+      expect(runs).toEqual(["inventory.update", "inventory.compensate"])
+    }).pipe(Effect.provide(InMemoryInboxRepositoryLive)))
+
+  it.effect("replays a response stored as plain JSON without a schema", () =>
+    Effect.gen(function*() {
+      const handle = Effect.succeed({ message: "Done", success: true }).pipe(
+        withInbox({ handler: "order.deliver", idempotencyKey })
+      )
+
+      yield* handle
+
+      expect(yield* handle).toEqual({ message: "Done", success: true })
+    }).pipe(Effect.provide(InMemoryInboxRepositoryLive)))
+})
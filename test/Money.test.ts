@@ -0,0 +1,29 @@
+import { describe, expect, it } from "@effect/vitest"
+import * as Money from "../src/Money.js"
+
+const USD = Money.Currency.make("USD")
+const EUR = Money.Currency.make("EUR")
+
+describe("Money", () => {
+  it("adds and subtracts amounts of one currency", () => {
+    expect(Money.add(Money.make(1050, USD), Money.make(275, USD))).toEqual(Money.make(1325, USD))
+    expect(Money.subtract(Money.make(1050, USD), Money.make(275, USD))).toEqual(Money.make(775, USD))
+    expect(Money.subtract(Money.make(275, USD), Money.make(1050, USD))).toEqual(Money.make(-775, USD))
+  })
+
+  it("refuses arithmetic across currencies", () => {
+    expect(() => Money.add(Money.make(100, USD), Money.make(100, EUR))).toThrow(
+      new Money.CurrencyMismatchError({ currencies: [USD, EUR] })
+    )
+    expect(() => Money.subtract(Money.make(100, EUR), Money.make(100, USD))).toThrow("Currency mismatch: EUR, USD")
+  })
+
+  it("scales major units by the currency's exponent", () => {
+    expect(Money.fromMajor(12.34, USD)).toEqual(Money.make(1234, USD))
+    expect(Money.fromMajor(1234, Money.Currency.make("JPY"))).toEqual(Money.make(1234, Money.Currency.make("JPY")))
+    expect(Money.fromMajor("1.234", Money.Currency.make("KWD"))).toEqual(Money.make(1234, Money.Currency.make("KWD")))
+    expect(Money.sqlMinorUnits("currency")).toContain("WHEN 'JPY' THEN 1 ")
+    expect(Money.sqlMinorUnits("currency")).toContain("WHEN 'KWD' THEN 1000 ")
+    expect(Money.sqlMinorUnits("currency")).toMatch(/ELSE 100 END$/)
+  })
+})
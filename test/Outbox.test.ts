@@ -0,0 +1,146 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Duration, Effect, Layer, Option } from "effect"
+import { Conflict } from "../src/DomainError.js"
+import { backoffDelay, ConfigService, Outbox, OutboxRepository, publishSingleEvent } from "../src/Outbox.js"
+import { type InMemoryHandler, InMemoryOutboxTransportLive } from "../src/OutboxTransport.js"
+
+const backoff = { baseDelayMs: 1000, factor: 2, jitter: 0.2, maxDelayMs: 60000 }
+
+describe("backoffDelay", () => {
+  it.effect("grows exponentially with the attempts", () =>
+    Effect.gen(function*() {
+      const delays = yield* Effect.forEach(
+        [1, 2, 3, 4],
+        (attempts) => backoffDelay(attempts, { ...backoff, jitter: 0 })
+      )
+
+      expect(delays.map(Duration.toMillis)).toEqual([1000, 2000, 4000, 8000])
+    }))
+
+  it.effect("spreads the delay by at most the jitter either way", () =>
+    Effect.gen(function*() {
+      const delays = yield* Effect.replicateEffect(backoffDelay(3, backoff), 200)
+
+      for (const delay of delays) {
+        expect(Duration.toMillis(delay)).toBeGreaterThanOrEqual(3200)
+        expect(Duration.toMillis(delay)).toBeLessThanOrEqual(4800)
+      }
+      expect(new Set(delays.map(Duration.toMillis)).size).toBeGreaterThan(1)
+    }))
+
+  it.effect("caps the delay before the jitter is applied", () =>
+    Effect.gen(function*() {
+      expect(Duration.toMillis(yield* backoffDelay(30, { ...backoff, jitter: 0 }))).toBe(60000)
+
+      const delays = yield* Effect.replicateEffect(backoffDelay(30, backoff), 200)
+      for (const delay of delays) {
+        expect(Duration.toMillis(delay)).toBeGreaterThanOrEqual(48000)
+        expect(Duration.toMillis(delay)).toBeLessThanOrEqual(72000)
+      }
+    }))
+})
+
+const event = Outbox.decodeUnknown({
+  id: "01920000-0000-7000-8000-000000000201",
+  aggregateId: "01920000-0000-7000-8000-000000000003",
+  eventType: "ORDER_CREATED",
+  payload: {
+    amount: { amount: 1250, currency: "USD" },
+    customerId: "01920000-0000-7000-8000-000000000002",
+    orderId: "01920000-0000-7000-8000-000000000003",
+    sagaLogId: "01920000-0000-7000-8000-000000000001"
+  },
+  status: "PENDING",
+  targetEndpoint: "payment.process",
+  targetService: "PAYMENT"
+})
+
+// Publishes the event to `handler` in process, with the outcomes the publisher records
+const publish = (handler?: InMemoryHandler) =>
+  Effect.gen(function*() {
+    const released: Array<Outbox> = []
+    yield* publishSingleEvent(yield* event).pipe(
+      Effect.provide(Layer.mergeAll(
+        InMemoryOutboxTransportLive({ PAYMENT: handler ? { "payment.process": handler } : {} }),
+        Layer.succeed(ConfigService, {
+          backoff: { ...backoff, jitter: 0 },
+          batchSize: 10,
+          leaseMs: 30000,
+          maxRetries: 3,
+          pollIntervalMs: 5000,
+          publisherId: "test"
+        }),
+        Layer.succeed(OutboxRepository, {
+          claimUnpublished: () => Effect.succeed([]),
+          findDeadLettered: () => Effect.succeed([]),
+          findFailed: () => Effect.succeed([]),
+          findOne: () => Effect.succeed(Option.none()),
+          findUndelivered: () => Effect.succeed([]),
+          release: (data) =>
+            Effect.sync(() => {
+              released.push(data)
+              return Option.some(data)
+            }),
+          save: Effect.succeed
+        })
+      ))
+    )
+    return released
+  })
+
+describe("publishSingleEvent", () => {
+  it.effect("delivers the event to its handler in process and records it published", () =>
+    Effect.gen(function*() {
+      const requests: Array<Parameters<InMemoryHandler>[0]> = []
+      const released = yield* publish((request) =>
+        Effect.sync(() => {
+          requests.push(request)
+          return { message: "Payment authorized", success: true }
+        })
+      )
+
+      expect(requests).toEqual([{ idempotencyKey: (yield* event).id, payload: (yield* event).payload }])
+      expect(released).toMatchObject([{ isPublished: true, status: "PUBLISHED" }])
+    }))
+
+  it.effect("records a step its handler reports failed", () =>
+    Effect.gen(function*() {
+      const released = yield* publish(() =>
+        Effect.succeed({ error: "Card declined", message: "Error processing payment", success: false })
+      )
+
+      expect(released).toMatchObject([{ isPublished: false, lastError: "Card declined", status: "FAILED" }])
+    }))
+
+  it.effect("rejects an event no handler is registered for", () =>
+    Effect.gen(function*() {
+      const released = yield* publish()
+
+      expect(released).toMatchObject([{ publishAttempts: 1, status: "REJECTED" }])
+    }))
+})
+
+describe("fromEvent", () => {
+  it.effect("refuses a payload that does not match its event type as a Conflict", () =>
+    Effect.gen(function*() {
+      const { eventType, payload, targetEndpoint, targetService } = yield* event
+      const entry = yield* Outbox.fromEvent("01920000-0000-7000-8000-000000000003", {
+        eventType,
+        payload,
+        targetEndpoint,
+        targetService
+      })
+      const error = yield* Effect.flip(
+        Outbox.fromEvent("01920000-0000-7000-8000-000000000003", {
+          eventType,
+          payload: { orderId: "01920000-0000-7000-8000-000000000003" },
+          targetEndpoint,
+          targetService
+        })
+      )
+
+      expect(entry).toMatchObject({ eventType, isPublished: false, payload, status: "PENDING" })
+      expect(error).toBeInstanceOf(Conflict)
+      expect(error.message).toMatch(/^Payload does not match ORDER_CREATED: /)
+    }))
+})
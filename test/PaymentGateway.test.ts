@@ -0,0 +1,129 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Cause, ConfigProvider, type Context, Effect, Exit } from "effect"
+import { CustomerId } from "../src/CustomerId.js"
+import { IdempotencyKey } from "../src/IdempotencyKey.js"
+import * as Money from "../src/Money.js"
+import { OrderId } from "../src/OrderId.js"
+import {
+  FixturePaymentGatewayLive,
+  PaymentDeclinedError,
+  PaymentGateway,
+  PaymentGatewayUnavailableError,
+  SimulatorPaymentGatewayFromConfigLive,
+  SimulatorPaymentGatewayLive
+} from "../src/PaymentGateway.js"
+
+const USD = Money.Currency.make("USD")
+const JPY = Money.Currency.make("JPY")
+
+const authorization: Parameters<Context.Tag.Service<PaymentGateway>["authorize"]>[0] = {
+  amount: Money.make(1250, USD),
+  card: "4242424242424242",
+  customerId: CustomerId.make("01920000-0000-7000-8000-000000000002"),
+  idempotencyKey: IdempotencyKey.make("01920000-0000-7000-8000-000000000005"),
+  orderId: OrderId.make("01920000-0000-7000-8000-000000000003")
+}
+
+const authorize = (request: Partial<typeof authorization> = {}) =>
+  Effect.flatMap(PaymentGateway, (gateway) => gateway.authorize({ ...authorization, ...request }))
+
+describe("SimulatorPaymentGatewayLive", () => {
+  const simulator = SimulatorPaymentGatewayLive({
+    declinedAmounts: [Money.make(666, USD)],
+    declinedCards: ["4000000000000002"],
+    declinedCustomers: ["01920000-0000-7000-8000-00000000dead"]
+  })
+
+  it.effect("authorizes with a reference derived from the idempotency key", () =>
+    Effect.gen(function*() {
+      expect(yield* authorize()).toEqual({ reference: `sim_auth_${authorization.idempotencyKey}` })
+      expect(yield* authorize({ card: null })).toEqual({ reference: `sim_auth_${authorization.idempotencyKey}` })
+    }).pipe(Effect.provide(simulator)))
+
+  it.effect("declines the configured cards, amounts and customers", () =>
+    Effect.gen(function*() {
+      expect(yield* Effect.flip(authorize({ card: "4000000000000002" }))).toEqual(
+        new PaymentDeclinedError({ reason: "Card declined" })
+      )
+      expect(yield* Effect.flip(authorize({ amount: Money.make(666, USD) }))).toEqual(
+        new PaymentDeclinedError({ reason: "Amount 6.66 USD declined" })
+      )
+      expect(yield* Effect.flip(authorize({ customerId: CustomerId.make("01920000-0000-7000-8000-00000000dead") })))
+        .toEqual(new PaymentDeclinedError({ reason: "Customer declined" }))
+    }).pipe(Effect.provide(simulator)))
+
+  it.effect("declines an amount in its currency only", () =>
+    Effect.gen(function*() {
+      expect(yield* authorize({ amount: Money.make(666, JPY) })).toEqual({
+        reference: `sim_auth_${authorization.idempotencyKey}`
+      })
+    }).pipe(Effect.provide(simulator)))
+})
+
+describe("SimulatorPaymentGatewayFromConfigLive", () => {
+  const withConfig = (env: Record<string, string>) =>
+    Effect.withConfigProvider(ConfigProvider.fromMap(new Map(Object.entries(env))))
+
+  it.effect("declines the amounts configured in minor units", () =>
+    Effect.gen(function*() {
+      expect(yield* Effect.flip(authorize({ amount: Money.make(1234, USD) }))).toBeInstanceOf(PaymentDeclinedError)
+      expect(yield* Effect.flip(authorize({ amount: Money.make(500, JPY) }))).toBeInstanceOf(PaymentDeclinedError)
+      expect(yield* authorize({ amount: Money.make(500, USD) })).toHaveProperty("reference")
+    }).pipe(
+      Effect.provide(SimulatorPaymentGatewayFromConfigLive),
+      withConfig({ PAYMENT_SIMULATOR_DECLINED_AMOUNTS: "1234 USD, 500 JPY" })
+    ))
+
+  it.effect("refuses an amount that is not in minor units of a currency", () =>
+    Effect.gen(function*() {
+      for (const amounts of ["12.34 USD", "1234 dollars", "1234"]) {
+        const exit = yield* authorize().pipe(
+          Effect.provide(SimulatorPaymentGatewayFromConfigLive),
+          withConfig({ PAYMENT_SIMULATOR_DECLINED_AMOUNTS: amounts }),
+          Effect.exit
+        )
+
+        expect(Exit.isFailure(exit) && Cause.pretty(exit.cause)).toMatch(/PAYMENT_SIMULATOR_DECLINED_AMOUNTS/)
+      }
+    }))
+})
+
+describe("FixturePaymentGatewayLive", () => {
+  const fixtures = FixturePaymentGatewayLive([
+    { idempotencyKey: authorization.idempotencyKey, operation: "authorize", response: { reference: "ch_1" } },
+    {
+      idempotencyKey: authorization.idempotencyKey,
+      operation: "capture",
+      response: new PaymentGatewayUnavailableError({ message: "Gateway timeout" })
+    },
+    {
+      idempotencyKey: authorization.idempotencyKey,
+      operation: "refund",
+      response: new PaymentDeclinedError({ reason: "Charge already refunded" })
+    }
+  ])
+
+  it.effect("replays the recorded response of an operation and key", () =>
+    Effect.gen(function*() {
+      const gateway = yield* PaymentGateway
+      const { idempotencyKey } = authorization
+
+      expect(yield* authorize()).toEqual({ reference: "ch_1" })
+      expect(
+        yield* Effect.flip(gateway.capture({ amount: authorization.amount, authorization: "ch_1", idempotencyKey }))
+      )
+        .toEqual(new PaymentGatewayUnavailableError({ message: "Gateway timeout" }))
+      expect(yield* Effect.flip(gateway.refund({ amount: authorization.amount, capture: "ch_1", idempotencyKey })))
+        .toEqual(new PaymentDeclinedError({ reason: "Charge already refunded" }))
+    }).pipe(Effect.provide(fixtures)))
+
+  it.effect("dies on an operation it has no fixture for", () =>
+    Effect.gen(function*() {
+      const gateway = yield* PaymentGateway
+      const exit = yield* gateway.void({ authorization: "ch_1", idempotencyKey: authorization.idempotencyKey }).pipe(
+        Effect.exit
+      )
+
+      expect(Exit.isFailure(exit) && Cause.pretty(exit.cause)).toMatch(/No fixture for void/)
+    }).pipe(Effect.provide(fixtures)))
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Option } from "effect"
+import { Payment, PaymentId, PaymentRefund, PaymentRefundId } from "../src/Api.js"
+import { CustomerId } from "../src/CustomerId.js"
+import { IdempotencyKey } from "../src/IdempotencyKey.js"
+import * as Money from "../src/Money.js"
+import { OrderId } from "../src/OrderId.js"
+import * as Refund from "../src/Refund.js"
+import { SagaLogId } from "../src/SagaLog.js"
+
+const USD = Money.Currency.make("USD")
+
+const payment = (status: Payment["status"]) =>
+  new Payment({
+    id: PaymentId.make("01920000-0000-7000-8000-000000000301"),
+    amount: Money.make(5000, USD),
+    authorizationReference: "sim_auth",
+    captureReference: status === "AUTHORIZED" ? null : "sim_capture",
+    compensationKey: null,
+    customerId: CustomerId.make("01920000-0000-7000-8000-000000000002"),
+    idempotencyKey: IdempotencyKey.make("01920000-0000-7000-8000-000000000005"),
+    orderId: OrderId.make("01920000-0000-7000-8000-000000000003"),
+    sagaLogId: SagaLogId.make("01920000-0000-7000-8000-000000000001"),
+    status
+  })
+
+const refund = (amount: number) =>
+  new PaymentRefund({
+    id: PaymentRefundId.make("01920000-0000-7000-8000-000000000302"),
+    amount: Money.make(amount, USD),
+    idempotencyKey: IdempotencyKey.make("01920000-0000-7000-8000-000000000303"),
+    paymentId: PaymentId.make("01920000-0000-7000-8000-000000000301"),
+    reason: null,
+    reference: "sim_refund"
+  })
+
+describe("refundable", () => {
+  it("is what the refunds so far have not given back", () => {
+    expect(Refund.refundable(payment("CAPTURED"), [])).toEqual(Money.make(5000, USD))
+    expect(Refund.refundable(payment("PARTIALLY_REFUNDED"), [refund(1500), refund(500)])).toEqual(
+      Money.make(3000, USD)
+    )
+  })
+})
+
+describe("refusePartialRefund", () => {
+  it("allows up to the refundable amount", () => {
+    const refunds = [refund(1500)]
+
+    expect(Refund.refusePartialRefund(payment("PARTIALLY_REFUNDED"), refunds, Money.make(1, USD))).toEqual(
+      Option.none()
+    )
+    expect(Refund.refusePartialRefund(payment("PARTIALLY_REFUNDED"), refunds, Money.make(3500, USD))).toEqual(
+      Option.none()
+    )
+  })
+
+  it("refuses more than the refundable amount", () => {
+    expect(Refund.refusePartialRefund(payment("PARTIALLY_REFUNDED"), [refund(1500)], Money.make(3501, USD))).toEqual(
+      Option.some("Refund of 35.01 USD exceeds refundable 35.00 USD")
+    )
+    expect(Refund.refusePartialRefund(payment("PARTIALLY_REFUNDED"), [refund(5000)], Money.make(1, USD))).toEqual(
+      Option.some("Refund of 0.01 USD exceeds refundable 0.00 USD")
+    )
+  })
+
+  it("refuses an amount that is not positive or in another currency", () => {
+    expect(Refund.refusePartialRefund(payment("CAPTURED"), [], Money.make(0, USD))).toEqual(
+      Option.some("Refund of 0.00 USD is not a positive USD amount")
+    )
+    expect(Refund.refusePartialRefund(payment("CAPTURED"), [], Money.make(100, Money.Currency.make("EUR")))).toEqual(
+      Option.some("Refund of 1.00 EUR is not a positive USD amount")
+    )
+  })
+
+  it("refuses a payment that was not captured", () => {
+    for (const status of ["PENDING", "AUTHORIZED", "FAILED", "VOIDED", "REFUNDED"] as const) {
+      expect(Refund.refusePartialRefund(payment(status), [], Money.make(100, USD))).toEqual(
+        Option.some(`Payment is ${status}, only captured payments can be partially refunded`)
+      )
+    }
+  })
+})
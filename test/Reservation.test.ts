@@ -0,0 +1,129 @@
+import { describe, expect, it } from "@effect/vitest"
+import { InventoryReservation, InventoryReservationId } from "../src/Api.js"
+import { CustomerId } from "../src/CustomerId.js"
+import { IdempotencyKey } from "../src/IdempotencyKey.js"
+import * as Money from "../src/Money.js"
+import { OrderId } from "../src/OrderId.js"
+import { ProductId } from "../src/ProductId.js"
+import * as Reservation from "../src/Reservation.js"
+import { SagaLog, SagaLogId } from "../src/SagaLog.js"
+
+type Step = SagaLog["steps"][number]
+
+const USD = Money.Currency.make("USD")
+const productId = ProductId.make("01920000-0000-7000-8000-000000000004")
+const ttlMs = 900000
+const now = new Date("2026-10-19T12:00:00Z")
+
+const sagaLog = (status: SagaLog["status"], statuses: ReadonlyArray<Step["status"]>) =>
+  new SagaLog({
+    id: SagaLogId.make("01920000-0000-7000-8000-000000000001"),
+    customerId: CustomerId.make("01920000-0000-7000-8000-000000000002"),
+    idempotencyKey: IdempotencyKey.make("01920000-0000-7000-8000-000000000005"),
+    orderId: "01920000-0000-7000-8000-000000000003",
+    lines: [{ productId, quantity: 2, unitPrice: Money.make(2500, USD) }],
+    status,
+    steps: (["CREATE_ORDER", "PROCESS_PAYMENT", "UPDATE_INVENTORY", "DELIVER_ORDER"] as const).map((name, index) => ({
+      compensationStatus: "PENDING",
+      error: null,
+      name,
+      status: statuses[index],
+      timestamp: null
+    })),
+    totalPrice: Money.make(5000, USD)
+  })
+
+const reservation = (createdAt: Date) =>
+  new InventoryReservation({
+    id: InventoryReservationId.make("01920000-0000-7000-8000-000000000401"),
+    idempotencyKey: IdempotencyKey.make("01920000-0000-7000-8000-000000000402"),
+    orderId: OrderId.make("01920000-0000-7000-8000-000000000003"),
+    productId,
+    quantity: 2,
+    sagaLogId: SagaLogId.make("01920000-0000-7000-8000-000000000001"),
+    createdAt
+  })
+
+const expired = reservation(new Date(now.getTime() - ttlMs - 1))
+const stalled = sagaLog("IN_PROGRESS", ["COMPLETED", "COMPLETED", "COMPLETED", "PENDING"])
+
+describe("quantitiesByProduct", () => {
+  it("adds up the lines of a product and sorts the products", () => {
+    const otherProductId = ProductId.make("01920000-0000-7000-8000-000000000006")
+    const lines = [
+      { productId: otherProductId, quantity: 1 },
+      { productId, quantity: 2 },
+      { productId: otherProductId, quantity: 3 }
+    ] as const
+
+    expect(Reservation.quantitiesByProduct(lines)).toEqual([
+      { productId, quantity: 2 },
+      { productId: otherProductId, quantity: 4 }
+    ])
+  })
+})
+
+describe("ledger", () => {
+  const reserved = reservation(now)
+  const compensationKey = IdempotencyKey.make("01920000-0000-7000-8000-000000000403")
+
+  it("holds the reserved stock until the reservation is committed", () => {
+    const committed = Reservation.commit(reserved)
+
+    expect(Reservation.held([reserved])).toBe(2)
+    expect(committed).toMatchObject({ releaseKey: null, status: "COMMITTED" })
+    expect(Reservation.held([committed])).toBe(0)
+    expect(Reservation.release(committed, compensationKey)).toBe(committed)
+  })
+
+  it("frees the reserved stock once the reservation is released", () => {
+    const released = Reservation.release(reserved, compensationKey)
+
+    expect(released).toMatchObject({ releaseKey: compensationKey, status: "RELEASED" })
+    expect(Reservation.held([released])).toBe(0)
+    expect(Reservation.commit(released)).toBe(released)
+    expect(Reservation.release(released)).toBe(released)
+  })
+
+  it("holds only the open reservations of a product", () => {
+    const other = new InventoryReservation({ ...reserved, quantity: 5 })
+
+    expect(Reservation.held([reserved, other, Reservation.commit(other)])).toBe(7)
+  })
+})
+
+describe("isExpired", () => {
+  it("expires an open reservation older than the TTL whose saga has stalled", () => {
+    expect(Reservation.isExpired(expired, stalled, { now, ttlMs })).toBe(true)
+    expect(Reservation.isExpired(reservation(new Date(now.getTime() - ttlMs)), stalled, { now, ttlMs })).toBe(false)
+    const committed = new InventoryReservation({ ...expired, status: "COMMITTED" })
+
+    expect(Reservation.isExpired(committed, stalled, { now, ttlMs })).toBe(false)
+  })
+
+  it("keeps the reservation of a saga past UPDATE_INVENTORY", () => {
+    const labelled = sagaLog("IN_PROGRESS", ["COMPLETED", "COMPLETED", "COMPLETED", "IN_PROGRESS"])
+    const rejected = sagaLog("COMPENSATING", ["COMPLETED", "COMPLETED", "COMPLETED", "FAILED"])
+    const completed = sagaLog("COMPLETED", ["COMPLETED", "COMPLETED", "COMPLETED", "COMPLETED"])
+
+    for (const saga of [labelled, rejected, completed]) {
+      expect(Reservation.isExpired(expired, saga, { now, ttlMs })).toBe(false)
+    }
+  })
+})
+
+describe("expire", () => {
+  it("releases an expired reservation and fails the step of its stalled saga", () => {
+    expect(Reservation.release(expired)).toMatchObject({ releaseKey: null, status: "RELEASED" })
+    expect(Reservation.expire(stalled).steps[2]).toMatchObject({ error: "Reservation expired", status: "FAILED" })
+  })
+
+  it("compensates the step of a saga already compensating", () => {
+    const compensating = sagaLog("COMPENSATING", ["COMPLETED", "FAILED", "COMPLETED", "PENDING"])
+
+    expect(Reservation.expire(compensating).steps[2]).toMatchObject({
+      compensationStatus: "COMPLETED",
+      status: "COMPENSATED"
+    })
+  })
+})
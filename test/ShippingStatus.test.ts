@@ -0,0 +1,75 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Option } from "effect"
+import type { Shipping } from "../src/Api.js"
+import { canTransition, refuseTransition, shippingTransitions } from "../src/ShippingStatus.js"
+
+const statuses = Object.keys(shippingTransitions) as Array<Shipping["status"]>
+
+describe("canTransition", () => {
+  it("moves a shipment forward from label to delivery", () => {
+    expect(canTransition("PENDING", "LABEL_CREATED")).toBe(true)
+    expect(canTransition("LABEL_CREATED", "SHIPPED")).toBe(true)
+    expect(canTransition("SHIPPED", "IN_TRANSIT")).toBe(true)
+    expect(canTransition("SHIPPED", "DELIVERED")).toBe(true)
+    expect(canTransition("IN_TRANSIT", "DELIVERED")).toBe(true)
+  })
+
+  it("cancels a shipment only before it has shipped", () => {
+    expect(canTransition("PENDING", "CANCELLED")).toBe(true)
+    expect(canTransition("LABEL_CREATED", "CANCELLED")).toBe(true)
+    expect(canTransition("SHIPPED", "CANCELLED")).toBe(false)
+    expect(canTransition("IN_TRANSIT", "CANCELLED")).toBe(false)
+    expect(canTransition("DELIVERED", "CANCELLED")).toBe(false)
+  })
+
+  it("does not return a shipment, nothing would refund or restock it", () => {
+    for (const from of statuses) {
+      expect(canTransition(from, "RETURNED")).toBe(false)
+    }
+  })
+
+  it("never moves a shipment back or skips its label", () => {
+    expect(canTransition("DELIVERED", "IN_TRANSIT")).toBe(false)
+    expect(canTransition("IN_TRANSIT", "SHIPPED")).toBe(false)
+    expect(canTransition("SHIPPED", "LABEL_CREATED")).toBe(false)
+    expect(canTransition("PENDING", "SHIPPED")).toBe(false)
+  })
+
+  it("keeps CANCELLED and RETURNED final", () => {
+    for (const to of statuses) {
+      expect(canTransition("CANCELLED", to)).toBe(false)
+      expect(canTransition("RETURNED", to)).toBe(false)
+    }
+  })
+
+  it("does not treat staying in a status as a transition", () => {
+    for (const status of statuses) {
+      expect(canTransition(status, status)).toBe(false)
+    }
+  })
+})
+
+describe("refuseTransition", () => {
+  it("ships a shipment of a running saga", () => {
+    expect(refuseTransition("LABEL_CREATED", "SHIPPED", "IN_PROGRESS")).toEqual(Option.none())
+  })
+
+  it("refuses to ship once the saga is compensated", () => {
+    expect(refuseTransition("LABEL_CREATED", "SHIPPED", "COMPENSATING")).toEqual(
+      Option.some("Saga is COMPENSATING, the shipment cannot ship")
+    )
+    expect(refuseTransition("LABEL_CREATED", "SHIPPED", "COMPENSATED")).toEqual(
+      Option.some("Saga is COMPENSATED, the shipment cannot ship")
+    )
+  })
+
+  it("refuses a move that is not a transition", () => {
+    expect(refuseTransition("CANCELLED", "SHIPPED", "COMPENSATED")).toEqual(
+      Option.some("Shipping cannot move from CANCELLED to SHIPPED")
+    )
+  })
+
+  it("moves a completed saga's shipment along", () => {
+    expect(refuseTransition("SHIPPED", "DELIVERED", "COMPLETED")).toEqual(Option.none())
+  })
+})
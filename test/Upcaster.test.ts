@@ -0,0 +1,96 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect, Either, Schema } from "effect"
+import * as fs from "node:fs"
+import { Outbox, OutboxEvent, OutboxUpcasters } from "../src/Outbox.js"
+import { SagaLog, SagaLogUpcasters } from "../src/SagaLog.js"
+import * as Upcaster from "../src/Upcaster.js"
+
+// Row as stored by an earlier version, as the repository reads it, with fields it is expected to have once upcast
+interface Fixture {
+  readonly description: string
+  readonly expected: Record<string, unknown>
+  readonly row: Upcaster.Document
+}
+
+const fixtures = (name: string): ReadonlyArray<Fixture> => {
+  const directory = new URL(`fixtures/${name}/`, import.meta.url)
+  return fs.readdirSync(directory)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(new URL(file, directory), "utf8")))
+}
+
+describe("Upcaster", () => {
+  it("rejects upcasters that do not migrate consecutive versions", () => {
+    expect(() =>
+      Upcaster.make({
+        name: "Test",
+        upcasters: [{ fromVersion: 2, upcast: (document) => document }],
+        versionKey: "schemaVersion"
+      })
+    ).toThrow("expected 1")
+  })
+
+  it.effect("migrates a document through every version after its own", () =>
+    Effect.gen(function*() {
+      const registry = Upcaster.make({
+        name: "Test",
+        upcasters: [
+          { fromVersion: 1, upcast: (document) => ({ ...document, trail: [...(document.trail as Array<number>), 1] }) },
+          { fromVersion: 2, upcast: (document) => ({ ...document, trail: [...(document.trail as Array<number>), 2] }) }
+        ],
+        versionKey: "version"
+      })
+
+      expect(yield* Upcaster.upcast(registry)({ trail: [] })).toEqual({ trail: [1, 2], version: 3 })
+      expect(yield* Upcaster.upcast(registry)({ trail: [], version: 2 })).toEqual({ trail: [2], version: 3 })
+      expect(yield* Upcaster.upcast(registry)({ trail: [], version: 3 })).toEqual({ trail: [], version: 3 })
+    }))
+})
+
+describe("Outbox", () => {
+  for (const fixture of fixtures("outbox")) {
+    it.effect(`replays ${fixture.description}`, () =>
+      Effect.gen(function*() {
+        const outbox = yield* Outbox.decodeUnknown(fixture.row)
+
+        expect(outbox.schemaVersion).toBe(OutboxUpcasters.currentVersion)
+        expect(Schema.encodeSync(Outbox)(outbox)).toMatchObject(fixture.expected)
+        expect(Either.isRight(Schema.decodeUnknownEither(OutboxEvent)(outbox))).toBe(true)
+      }))
+  }
+
+  it.effect("cannot read a row of a version newer than the current one", () =>
+    Effect.gen(function*() {
+      const [fixture] = fixtures("outbox")
+      const error = yield* Outbox.decodeUnknown({
+        ...fixture.row,
+        schemaVersion: OutboxUpcasters.currentVersion + 1
+      }).pipe(Effect.flip)
+
+      expect(error._tag).toBe("ParseError")
+    }))
+})
+
+describe("SagaLog", () => {
+  for (const fixture of fixtures("saga-log")) {
+    it.effect(`replays ${fixture.description}`, () =>
+      Effect.gen(function*() {
+        const sagaLog = yield* SagaLog.decodeUnknown(fixture.row)
+
+        expect(sagaLog.schemaVersion).toBe(SagaLogUpcasters.currentVersion)
+        expect(Schema.encodeSync(SagaLog)(sagaLog)).toMatchObject(fixture.expected)
+      }))
+  }
+
+  it.effect("cannot read a row of a version newer than the current one", () =>
+    Effect.gen(function*() {
+      const [fixture] = fixtures("saga-log")
+      const error = yield* SagaLog.decodeUnknown({
+        ...fixture.row,
+        schemaVersion: SagaLogUpcasters.currentVersion + 1
+      }).pipe(Effect.flip)
+
+      expect(error._tag).toBe("ParseError")
+    }))
+})